@@ -0,0 +1,335 @@
+import type { Zigbee2MQTTAPI, Zigbee2MQTTRequest, Zigbee2MQTTRequestEndpoints, Zigbee2MQTTResponse, Zigbee2MQTTResponseEndpoints } from "zigbee2mqtt";
+import type { FakeNetwork } from "./network.js";
+import Rng from "./rng.js";
+
+/** Bridge topics republished after a request modified the network */
+type BridgeFollowUp = "bridge/info" | "bridge/devices" | "bridge/groups";
+
+/** Message as published by Zigbee2MQTT, topic is relative to `base_topic` */
+export type BridgeMessage = {
+    topic: string;
+    payload: unknown;
+};
+
+export type BridgeRequestResult = {
+    /** "bridge/response/*" */
+    response: BridgeMessage & { payload: Zigbee2MQTTResponse<Zigbee2MQTTResponseEndpoints> };
+    /** Bridge topics republished as a result of the request (only on success) */
+    publish: BridgeMessage[];
+};
+
+export type BridgeRequestHandlerOptions = {
+    /** Probability [0-1] of a request failing with a generic error. Default: 0 */
+    errorRate?: number;
+    /** Requests always failing with given error message */
+    errors?: Partial<Record<Zigbee2MQTTRequestEndpoints, string>>;
+};
+
+type HandlerResult = {
+    data: Record<string, unknown>;
+    publish?: BridgeFollowUp[];
+};
+
+type Handler = (request: Record<string, unknown>) => HandlerResult;
+
+/**
+ * Handle "bridge/request/*" against a fake network, the same way Zigbee2MQTT does (as far as the network is concerned).
+ *
+ * Requests modify the network (rename, remove, bind, group members, options...) and return the matching "bridge/response/*"
+ * along with the bridge topics to republish.
+ */
+export class BridgeRequestHandler {
+    readonly network: FakeNetwork;
+    private readonly r: Rng;
+    private readonly errorRate: number;
+    private readonly errors: Partial<Record<Zigbee2MQTTRequestEndpoints, string>>;
+    private readonly handlers: Partial<Record<Zigbee2MQTTRequestEndpoints, Handler>>;
+
+    /**
+     * @param network
+     * @param seed Used for error injection
+     * @param options
+     */
+    constructor(network: FakeNetwork, seed = 1, options: BridgeRequestHandlerOptions = {}) {
+        this.network = network;
+        this.r = new Rng(seed);
+        this.errorRate = options.errorRate ?? 0;
+        this.errors = options.errors ?? {};
+        this.handlers = {
+            "bridge/request/permit_join": (request) => this.permitJoin(request),
+            "bridge/request/health_check": () => ({ data: { healthy: true } }),
+            "bridge/request/restart": () => ({ data: {} }),
+            "bridge/request/networkmap": (request) => this.networkMap(request),
+            "bridge/request/options": (request) => this.options(request),
+            "bridge/request/device/bind": (request) => this.bind(request, true),
+            "bridge/request/device/unbind": (request) => this.bind(request, false),
+            "bridge/request/device/configure": (request) => this.deviceId(request),
+            "bridge/request/device/interview": (request) => this.deviceId(request),
+            "bridge/request/device/remove": (request) => this.removeDevice(request),
+            "bridge/request/device/options": (request) => this.deviceOptions(request),
+            "bridge/request/device/rename": (request) => this.renameDevice(request),
+            "bridge/request/group/add": (request) => this.addGroup(request),
+            "bridge/request/group/remove": (request) => this.removeGroup(request),
+            "bridge/request/group/rename": (request) => this.renameGroup(request),
+            "bridge/request/group/options": (request) => this.groupOptions(request),
+            "bridge/request/group/members/add": (request) => this.groupMember(request, true),
+            "bridge/request/group/members/remove": (request) => this.groupMember(request, false),
+            "bridge/request/group/members/remove_all": (request) => this.removeGroupMemberships(request),
+        };
+    }
+
+    /**
+     * Handle a request
+     * @param topic "bridge/request/*" (relative to base topic)
+     * @param request Payload, as object, or string for simple requests (e.g. `permit_join`)
+     * @returns
+     */
+    handle<T extends Zigbee2MQTTRequestEndpoints>(topic: T, request: Zigbee2MQTTRequest<T> | string): BridgeRequestResult {
+        const responseTopic = topic.replace("bridge/request/", "bridge/response/") as Zigbee2MQTTResponseEndpoints;
+        const message = this.parse(request);
+        // echoed unchanged, whatever its type (typed as string by Zigbee2MQTT, some clients use numbers)
+        const transaction = message.transaction as string | undefined;
+        const handler = this.handlers[topic];
+        const rolledError = this.errorRate > 0 && this.r.bool(this.errorRate);
+
+        try {
+            if (!handler) {
+                throw new Error(`Request '${topic}' is not supported`);
+            }
+
+            if (this.errors[topic] !== undefined) {
+                throw new Error(this.errors[topic]);
+            }
+
+            if (rolledError) {
+                throw new Error("Request failed (injected error)");
+            }
+
+            const result = handler(message);
+
+            return {
+                response: {
+                    topic: responseTopic,
+                    payload: { status: "ok", data: result.data as Zigbee2MQTTAPI[Zigbee2MQTTResponseEndpoints], transaction },
+                },
+                publish: (result.publish ?? []).map((t) => this.followUp(t)),
+            };
+        } catch (error) {
+            return {
+                response: {
+                    topic: responseTopic,
+                    payload: { status: "error", data: {}, error: (error as Error).message, transaction },
+                },
+                publish: [],
+            };
+        }
+    }
+
+    /**
+     * Normalize string payloads (raw value or JSON) to object
+     */
+    private parse(request: unknown): Record<string, unknown> {
+        if (typeof request === "string") {
+            if (request === "") {
+                return {};
+            }
+
+            try {
+                const parsed = JSON.parse(request);
+
+                if (parsed !== null && typeof parsed === "object") {
+                    return parsed;
+                }
+
+                return { value: parsed };
+            } catch {
+                return { value: request };
+            }
+        }
+
+        return (request ?? {}) as Record<string, unknown>;
+    }
+
+    private followUp(topic: BridgeFollowUp): BridgeMessage {
+        switch (topic) {
+            case "bridge/info": {
+                return { topic, payload: this.network.bridgeInfo() };
+            }
+            case "bridge/devices": {
+                return { topic, payload: this.network.bridgeDevices() };
+            }
+            case "bridge/groups": {
+                return { topic, payload: this.network.bridgeGroups() };
+            }
+        }
+    }
+
+    private required<T>(request: Record<string, unknown>, key: string): T {
+        const value = request[key];
+
+        if (value === undefined || value === null || value === "") {
+            throw new Error(`Invalid payload, missing '${key}'`);
+        }
+
+        return value as T;
+    }
+
+    private permitJoin(request: Record<string, unknown>): HandlerResult {
+        const time = Number(request.time ?? request.value);
+
+        if (Number.isNaN(time)) {
+            throw new Error("Invalid payload, 'time' must be a number");
+        }
+
+        if (request.device !== undefined) {
+            this.network.resolveDevice(request.device as string);
+        }
+
+        this.network.permitJoin(time);
+
+        return { data: { time, device: request.device }, publish: ["bridge/info"] };
+    }
+
+    private networkMap(request: Record<string, unknown>): HandlerResult {
+        const type = request.type ?? request.value;
+        const routes = request.routes === true;
+
+        if (type !== "raw") {
+            throw new Error(`Network map type '${type}' is not supported`);
+        }
+
+        return { data: this.network.networkMap(routes) };
+    }
+
+    private options(request: Record<string, unknown>): HandlerResult {
+        const restartRequired = this.network.setOptions(this.required(request, "options"));
+
+        return { data: { restart_required: restartRequired }, publish: ["bridge/info"] };
+    }
+
+    private bind(request: Record<string, unknown>, bind: boolean): HandlerResult {
+        const from = this.required<string>(request, "from");
+        const to = this.required<string | number>(request, "to");
+        const fromEndpoint = request.from_endpoint as string | number | undefined;
+        const toEndpoint = request.to_endpoint as string | number | undefined;
+        const clusters = request.clusters as string[] | undefined;
+        const result = bind
+            ? this.network.bind(from, fromEndpoint, to, toEndpoint, clusters)
+            : this.network.unbind(from, fromEndpoint, to, toEndpoint, clusters);
+
+        return {
+            data: { from, from_endpoint: fromEndpoint ?? "default", to, to_endpoint: toEndpoint, ...result },
+            publish: ["bridge/devices"],
+        };
+    }
+
+    private deviceId(request: Record<string, unknown>): HandlerResult {
+        const id = (request.id ?? request.value) as string | number;
+
+        this.network.resolveDevice(String(id));
+
+        return { data: { id } };
+    }
+
+    private removeDevice(request: Record<string, unknown>): HandlerResult {
+        const id = this.required<string>(request, "id");
+        const { block = false, force = false, keep_config = false, clear_cache = false } = request;
+
+        this.network.removeDevice(id);
+
+        return { data: { id, block, force, keep_config, clear_cache }, publish: ["bridge/devices", "bridge/groups", "bridge/info"] };
+    }
+
+    private deviceOptions(request: Record<string, unknown>): HandlerResult {
+        const id = this.required<string>(request, "id");
+        const { from, to } = this.network.setDeviceOptions(id, this.required(request, "options"));
+
+        return { data: { id, from, to, restart_required: false }, publish: ["bridge/devices", "bridge/info"] };
+    }
+
+    private renameDevice(request: Record<string, unknown>): HandlerResult {
+        const to = this.required<string>(request, "to");
+        const homeassistantRename = request.homeassistant_rename === true;
+        let from = request.from as string | undefined;
+
+        if (request.last === true) {
+            const device = this.network.lastJoinedDevice;
+
+            if (!device) {
+                throw new Error("No device has joined since start");
+            }
+
+            from = device.friendly_name;
+        } else if (!from) {
+            throw new Error("Invalid payload, missing 'from'");
+        }
+
+        const device = this.network.resolveDevice(from);
+        const previous = device.friendly_name;
+
+        this.network.renameDevice(from, to);
+
+        return { data: { from: previous, to, homeassistant_rename: homeassistantRename }, publish: ["bridge/devices", "bridge/info"] };
+    }
+
+    private addGroup(request: Record<string, unknown>): HandlerResult {
+        const friendlyName = this.required<string>(request, "friendly_name");
+        const id = request.id === undefined ? undefined : Number(request.id);
+
+        if (id !== undefined && (!Number.isInteger(id) || id < 1 || id > 0xfffe)) {
+            throw new Error(`Invalid group ID '${request.id}'`);
+        }
+
+        const group = this.network.addGroup(friendlyName, id);
+
+        return { data: { friendly_name: group.friendly_name, id: group.id }, publish: ["bridge/groups", "bridge/info"] };
+    }
+
+    private removeGroup(request: Record<string, unknown>): HandlerResult {
+        const id = this.required<string>(request, "id");
+        const force = request.force === true;
+
+        this.network.removeGroup(id);
+
+        return { data: { id, force }, publish: ["bridge/groups", "bridge/devices", "bridge/info"] };
+    }
+
+    private renameGroup(request: Record<string, unknown>): HandlerResult {
+        const from = this.required<string>(request, "from");
+        const to = this.required<string>(request, "to");
+
+        this.network.renameGroup(from, to);
+
+        return { data: { from, to, homeassistant_rename: request.homeassistant_rename === true }, publish: ["bridge/groups", "bridge/info"] };
+    }
+
+    private groupOptions(request: Record<string, unknown>): HandlerResult {
+        const id = this.required<string>(request, "id");
+        const { from, to } = this.network.setGroupOptions(id, this.required(request, "options"));
+
+        return { data: { id, from, to, restart_required: false }, publish: ["bridge/groups", "bridge/info"] };
+    }
+
+    private groupMember(request: Record<string, unknown>, add: boolean): HandlerResult {
+        const group = this.required<string>(request, "group");
+        const device = this.required<string>(request, "device");
+        const endpoint = (request.endpoint ?? "default") as string | number;
+
+        if (add) {
+            this.network.addGroupMember(group, device, endpoint);
+        } else {
+            this.network.removeGroupMember(group, device, endpoint);
+        }
+
+        return { data: { device, group, endpoint }, publish: ["bridge/groups"] };
+    }
+
+    private removeGroupMemberships(request: Record<string, unknown>): HandlerResult {
+        const device = this.required<string>(request, "device");
+        const endpoint = (request.endpoint ?? "default") as string | number;
+
+        this.network.removeGroupMemberships(device, endpoint);
+
+        return { data: { device, endpoint }, publish: ["bridge/groups"] };
+    }
+}
@@ -0,0 +1,253 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import stringify from "json-stable-stringify-without-jsonify";
+import { FakeNetwork } from "./network.js";
+import { parseScenario, scenarioNetwork } from "./scenario.js";
+import {
+    type DeviceType,
+    FLEET_PROFILES,
+    type FleetProfileName,
+    findDefinitionByModel,
+    listDefinitionExposes,
+    listDefinitionExposesCategories,
+    listDefinitionModels,
+    listDefinitionOptions,
+    listGreenPowerDefinitionModels,
+    Zigbee2MQTTAPIFaker,
+} from "./zigbee2mqtt.js";
+
+export type CliFormat = "json" | "ndjson" | "pretty";
+
+export type CliIO = {
+    stdout: (chunk: string) => void;
+    stderr: (chunk: string) => void;
+};
+
+const FORMATS: readonly CliFormat[] = ["json", "ndjson", "pretty"];
+const DEVICE_TYPES: readonly DeviceType[] = ["Router", "EndDevice", "GreenPower", "Unknown"];
+const PROFILES = Object.keys(FLEET_PROFILES) as FleetProfileName[];
+const LISTS = ["models", "models-gp", "exposes", "options", "categories"] as const;
+
+const USAGE = `Usage: zigbee-faker <command> [options]
+
+Commands:
+  snapshot                 bridge payloads (state, info, health, converters, extensions, devices, groups, network map)
+  device                   single device
+  states                   state of every device in the network
+  networkmap               raw network map
+  list <what>              ZHC ${LISTS.join("|")}
+
+Options:
+  --seed <n>               default: 1
+  --time <msec>            reference time for timestamps (msec since epoch). Default: now
+  --devices <n>            devices in the network. Default: 20
+  --groups <n>             groups in the network. Default: 4
+  --profile <profile>      population of the network: ${PROFILES.join("|")}. Default: uniform over all models
+  --scenario <file>        JSON scenario describing the network (replaces --seed, --time, --devices, --groups)
+  --routes                 include routes in network map
+  --partial                states with only some properties
+  --model <model>          device: ZHC definition model
+  --type <type>            device: ${DEVICE_TYPES.join("|")}
+  --vendor <vendor>        device: ZHC definition vendor
+  --exposes <a,b>          device: expose types or names the definition must have (e.g. light,color_temp)
+  --out <dir>              snapshot: write one file per payload into given directory
+  --format <format>        ${FORMATS.join("|")}. Default: pretty
+  -h, --help
+`;
+
+const OPTIONS = {
+    seed: { type: "string" },
+    time: { type: "string" },
+    devices: { type: "string" },
+    groups: { type: "string" },
+    profile: { type: "string" },
+    scenario: { type: "string" },
+    routes: { type: "boolean" },
+    partial: { type: "boolean" },
+    model: { type: "string" },
+    type: { type: "string" },
+    vendor: { type: "string" },
+    exposes: { type: "string" },
+    out: { type: "string" },
+    format: { type: "string" },
+    help: { type: "boolean", short: "h" },
+} as const;
+
+/**
+ * Serialize with stable key ordering
+ * @param value
+ * @param format `ndjson` outputs one line per array element
+ * @returns
+ */
+export function formatOutput(value: unknown, format: CliFormat): string {
+    switch (format) {
+        case "json": {
+            return `${stringify(value)}\n`;
+        }
+        case "ndjson": {
+            return Array.isArray(value) ? value.map((v) => `${stringify(v)}\n`).join("") : `${stringify(value)}\n`;
+        }
+        case "pretty": {
+            return `${stringify(value, { space: 4 })}\n`;
+        }
+    }
+}
+
+/**
+ * Parse "- name (count)" list entries
+ */
+function parseCountList(list: string[]): { name: string; count: number }[] {
+    return list.map((entry) => {
+        const match = /^- (.+) \((\d+)\)$/.exec(entry);
+
+        return match ? { name: match[1], count: Number.parseInt(match[2], 10) } : { name: entry, count: 0 };
+    });
+}
+
+function parseInteger(name: string, value: string | undefined, defaultValue: number, min = 0): number {
+    if (value === undefined) {
+        return defaultValue;
+    }
+
+    const n = Number(value);
+
+    if (!Number.isInteger(n) || n < min) {
+        throw new Error(`Invalid --${name} '${value}'`);
+    }
+
+    return n;
+}
+
+function parseChoice<T extends string>(name: string, value: string | undefined, choices: readonly T[], defaultValue: T): T;
+function parseChoice<T extends string>(name: string, value: string | undefined, choices: readonly T[]): T | undefined;
+function parseChoice<T extends string>(name: string, value: string | undefined, choices: readonly T[], defaultValue?: T): T | undefined {
+    if (value === undefined) {
+        return defaultValue;
+    }
+
+    if (!choices.includes(value as T)) {
+        throw new Error(`Invalid --${name} '${value}', expected one of ${choices.join(", ")}`);
+    }
+
+    return value as T;
+}
+
+function list(what: string | undefined): unknown {
+    switch (parseChoice("list", what, LISTS)) {
+        case "models": {
+            return Array.from(listDefinitionModels(), ([model, whitelabels]) => ({ model, whitelabels }));
+        }
+        case "models-gp": {
+            return Array.from(listGreenPowerDefinitionModels(), ([model, whitelabels]) => ({ model, whitelabels }));
+        }
+        case "exposes": {
+            return parseCountList(listDefinitionExposes());
+        }
+        case "options": {
+            return parseCountList(listDefinitionOptions());
+        }
+        case "categories": {
+            return Array.from(listDefinitionExposesCategories(), ([category, exposes]) => ({ category, exposes }));
+        }
+        default: {
+            throw new Error(`Missing list, expected one of ${LISTS.join(", ")}`);
+        }
+    }
+}
+
+/**
+ * Run the CLI
+ * @param argv Arguments (without node & script)
+ * @param io Output streams. Default: process stdout/stderr
+ * @returns Exit code
+ */
+export function runCli(
+    argv: string[],
+    io: CliIO = { stdout: (chunk) => process.stdout.write(chunk), stderr: (chunk) => process.stderr.write(chunk) },
+): number {
+    try {
+        const { values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+        const [command, ...rest] = positionals;
+
+        if (values.help || command === undefined) {
+            io.stdout(USAGE);
+
+            return 0;
+        }
+
+        const format = parseChoice("format", values.format, FORMATS, "pretty");
+        const seed = parseInteger("seed", values.seed, 1);
+        const clock = values.time === undefined ? undefined : parseInteger("time", values.time, 0);
+        const profile = parseChoice("profile", values.profile, PROFILES);
+        const network = () =>
+            values.scenario === undefined
+                ? new FakeNetwork(seed, parseInteger("devices", values.devices, 20), parseInteger("groups", values.groups, 4), { clock, profile })
+                : scenarioNetwork(parseScenario(readFileSync(values.scenario, "utf8")));
+        let output: unknown;
+
+        switch (command) {
+            case "snapshot": {
+                const snapshot = network().snapshot(values.routes === true);
+
+                if (values.out !== undefined) {
+                    mkdirSync(values.out, { recursive: true });
+
+                    const extension = format === "ndjson" ? "ndjson" : "json";
+
+                    for (const key of Object.keys(snapshot).sort() as (keyof typeof snapshot)[]) {
+                        const file = join(values.out, `${key}.${extension}`);
+
+                        writeFileSync(file, formatOutput(snapshot[key], format), "utf8");
+                        io.stderr(`Wrote ${file}\n`);
+                    }
+
+                    return 0;
+                }
+
+                output = snapshot;
+                break;
+            }
+            case "device": {
+                if (values.model !== undefined && !findDefinitionByModel(values.model)) {
+                    throw new Error(`Unknown model '${values.model}'`);
+                }
+
+                const faker = new Zigbee2MQTTAPIFaker(seed, { clock });
+                const type = parseChoice("type", values.type, DEVICE_TYPES);
+                output =
+                    values.vendor === undefined && values.exposes === undefined
+                        ? faker.device(type, values.model)
+                        : faker.device({ type, model: values.model, vendor: values.vendor, exposes: values.exposes?.split(",") });
+                break;
+            }
+            case "states": {
+                const fakeNetwork = network();
+                output = fakeNetwork.devices.map((device) => ({
+                    friendly_name: device.friendly_name,
+                    state: values.partial ? fakeNetwork.faker.entityState(device, true) : fakeNetwork.entityState(device.ieee_address),
+                }));
+                break;
+            }
+            case "networkmap": {
+                output = network().networkMap(values.routes === true);
+                break;
+            }
+            case "list": {
+                output = list(rest[0]);
+                break;
+            }
+            default: {
+                throw new Error(`Unknown command '${command}'`);
+            }
+        }
+
+        io.stdout(formatOutput(output, format));
+
+        return 0;
+    } catch (error) {
+        io.stderr(`${(error as Error).message}\n\n${USAGE}`);
+
+        return 1;
+    }
+}
@@ -1,14 +1,34 @@
 import type Rng from "./rng.js";
 
+/** Source of the current time, msec since epoch */
+export type Clock = () => number;
+
+/** Pool used by `word()` */
+export const WORDS: readonly string[] = [
+    "alpha",
+    "beta",
+    "gamma",
+    "delta",
+    "omega",
+    "nova",
+    "terra",
+    "luna",
+    "sol",
+    "aqua",
+    "zen",
+    "ion",
+    "neo",
+    "flux",
+    "quark",
+];
+
 /**
  * Basic word from a short list
  * @param r
  * @returns
  */
 export function word(r: Rng): string {
-    const pool = ["alpha", "beta", "gamma", "delta", "omega", "nova", "terra", "luna", "sol", "aqua", "zen", "ion", "neo", "flux", "quark"];
-
-    return r.pick(pool);
+    return r.pick(WORDS);
 }
 
 /**
@@ -31,11 +51,105 @@ export function sentence(r: Rng, min = 3, max = 8): string {
     return `${s.charAt(0).toUpperCase() + s.slice(1)}.`;
 }
 
+/**
+ * Normalize a reference time to a clock
+ * @param clock Fixed time (msec since epoch) or clock. Default: `Date.now`
+ * @returns
+ */
+export function toClock(clock: number | Clock = Date.now): Clock {
+    return typeof clock === "number" ? () => clock : clock;
+}
+
 /**
  * Past Date in ISO string format
  * @param r
+ * @param now msec since epoch
  * @returns
  */
-export function isoPastDate(r: Rng): string {
-    return new Date(Date.now() - r.int(10_000, r.bool(0.85) ? 20_000_000 : 1_000_000_000)).toISOString();
+export function isoPastDate(r: Rng, now: number = Date.now()): string {
+    return new Date(now - r.int(10_000, r.bool(0.85) ? 20_000_000 : 1_000_000_000)).toISOString();
+}
+
+/**
+ * Set of values guaranteed unique, drawn from a space of limited size
+ */
+export class UniqueValues<T> {
+    private readonly values = new Set<T>();
+
+    /**
+     * @param name Used in error messages
+     * @param capacity Size of the space values are drawn from
+     * @param maxAttempts Maximum attempts to draw a value not yet present
+     */
+    constructor(
+        readonly name: string,
+        readonly capacity: number,
+        readonly maxAttempts = 10_000,
+    ) {}
+
+    get size(): number {
+        return this.values.size;
+    }
+
+    /** Count of values that can still be drawn */
+    get available(): number {
+        return this.capacity - this.values.size;
+    }
+
+    has(value: T): boolean {
+        return this.values.has(value);
+    }
+
+    /**
+     * Mark a value as used
+     * @param value
+     * @returns false if value was already present
+     */
+    add(value: T): boolean {
+        if (this.values.has(value)) {
+            return false;
+        }
+
+        this.values.add(value);
+
+        return true;
+    }
+
+    /**
+     * Release a value for future draws
+     * @param value
+     * @returns
+     */
+    delete(value: T): boolean {
+        return this.values.delete(value);
+    }
+
+    /**
+     * Throw if the space cannot fit given count of additional values
+     * @param count
+     */
+    ensureAvailable(count: number): void {
+        if (count > this.available) {
+            throw new Error(`Cannot allocate ${count} ${this.name} (${this.available} available out of ${this.capacity})`);
+        }
+    }
+
+    /**
+     * Repeatedly call given function until it returns a value not yet present, then mark it as used
+     * @param fn
+     * @returns
+     */
+    draw(fn: () => T): T {
+        this.ensureAvailable(1);
+
+        for (let i = 0; i < this.maxAttempts; i++) {
+            const value = fn();
+
+            if (this.add(value)) {
+                return value;
+            }
+        }
+
+        throw new Error(`Could not draw a unique ${this.name} after ${this.maxAttempts} attempts`);
+    }
 }
@@ -0,0 +1,187 @@
+import { access } from "zigbee-herdsman-converters";
+import type { Expose } from "zigbee-herdsman-converters/lib/types";
+import type { Zigbee2MQTTAPI, Zigbee2MQTTDevice } from "zigbee2mqtt";
+import type Rng from "./rng.js";
+import { exposesValue, exposeValue, fitNumeric, illuminance, numericProfile, numericValue } from "./zigbee2mqtt.js";
+
+export type EntityHistorySample = {
+    /** msec since epoch */
+    timestamp: number;
+    state: Zigbee2MQTTAPI["{friendlyName}"];
+};
+
+export type EntityHistoryOptions = {
+    /** msec since epoch. Default: `Date.now()` */
+    end?: number;
+    /** msec since epoch. Default: 24h before `end` */
+    start?: number;
+    /** Time between two samples (msec). Default: 300 000 */
+    interval?: number;
+    /** State of the first sample. Default: generated from exposes */
+    initial?: Zigbee2MQTTAPI["{friendlyName}"];
+};
+
+/** Average time (msec) a binary/enum keeps the same value, by expose name */
+const DWELL_BY_NAME: Record<string, number> = {
+    occupancy: 600_000,
+    presence: 600_000,
+    vibration: 60_000,
+    contact: 3_600_000,
+    water_leak: 604_800_000,
+    smoke: 604_800_000,
+    tamper: 604_800_000,
+    battery_low: 604_800_000,
+};
+
+/** Average time (msec) a binary/enum, or a writable numeric, keeps the same value, when name is not well-known */
+const DEFAULT_DWELL = 7_200_000;
+
+/** Max change of a numeric in 5 minutes, as part of its range */
+const WALK_STEP = 0.02;
+
+type HistoryContext = {
+    r: Rng;
+    /** msec since epoch */
+    time: number;
+    /** since previous sample (msec) */
+    elapsed: number;
+    /** unrounded values behind published numerics, by path */
+    raw: Map<string, number>;
+    /** time of next change of binaries, enums & writable numerics, by path */
+    changes: Map<string, number>;
+};
+
+/**
+ * Time the value of given expose is kept before changing
+ */
+function dwell(r: Rng, expose: Expose): number {
+    return r.exponential(DWELL_BY_NAME[expose.name] ?? DEFAULT_DWELL);
+}
+
+/**
+ * Next value of a numeric, continuous with current
+ */
+function walkNumeric(ctx: HistoryContext, expose: Expose & { type: "numeric" }, current: number, path: string): number {
+    if (ctx.elapsed === 0) {
+        return current;
+    }
+
+    const hours = ctx.elapsed / 3_600_000;
+    const profile = numericProfile(expose);
+    let value = ctx.raw.get(path) ?? current;
+
+    if (expose.name === "illuminance" || expose.unit === "lx") {
+        value = illuminance(ctx.r, ctx.time);
+    } else if (expose.name === "energy" || expose.unit === "kWh") {
+        // up to 2kW average consumption, never decreasing
+        value += ctx.r.float(0, 2) * hours;
+    } else if (expose.name === "battery") {
+        // up to 0.5% a day
+        value -= ctx.r.float(0, 0.5 / 24) * hours;
+    } else {
+        value += ctx.r.float(-1, 1) * (profile.max - profile.min) * WALK_STEP * Math.sqrt(ctx.elapsed / 300_000);
+        value = Math.min(profile.max, Math.max(profile.min, value));
+    }
+
+    ctx.raw.set(path, value);
+
+    return fitNumeric(expose, value, profile.decimals);
+}
+
+/**
+ * Advance the values of given exposes in state (mutated), following the same nesting as `exposesValue`
+ */
+function advance(ctx: HistoryContext, exposes: Expose[], state: Record<string, unknown>, prefix = ""): void {
+    for (const expose of exposes) {
+        if (!expose.property) {
+            if (expose.features) {
+                advance(ctx, expose.features, state, prefix);
+            }
+
+            continue;
+        }
+
+        const path = `${prefix}${expose.property}`;
+        const current = state[expose.property];
+
+        if (expose.features) {
+            const nested = { ...(current !== null && typeof current === "object" ? current : {}) } as Record<string, unknown>;
+
+            advance(ctx, expose.features, nested, `${path}.`);
+
+            state[expose.property] = nested;
+            continue;
+        }
+
+        const changing = expose.type === "binary" || expose.type === "enum" || (expose.type === "numeric" && !!(expose.access & access.SET));
+
+        if (changing) {
+            const change = ctx.changes.get(path);
+
+            if (change === undefined) {
+                ctx.changes.set(path, ctx.time + dwell(ctx.r, expose));
+            } else if (ctx.time >= change) {
+                ctx.changes.set(path, ctx.time + dwell(ctx.r, expose));
+
+                switch (expose.type) {
+                    case "binary": {
+                        state[expose.property] = current === expose.value_on ? expose.value_off : expose.value_on;
+                        break;
+                    }
+                    case "enum": {
+                        state[expose.property] = exposeValue(ctx.r, expose, ctx.time);
+                        break;
+                    }
+                    case "numeric": {
+                        state[expose.property] = numericValue(ctx.r, expose, ctx.time);
+                        break;
+                    }
+                }
+            }
+        } else if (expose.type === "numeric" && typeof current === "number") {
+            state[expose.property] = walkNumeric(ctx, expose, current, path);
+        }
+    }
+}
+
+/**
+ * Generate a deterministic (given Rng state) time series of states for a device, continuous between samples:
+ * - numerics random walk within plausible ranges (illuminance follows day/night, energy only increases, battery slowly drains)
+ * - binaries & enums (and writable numerics) change after random dwell times
+ * - `last_seen` follows samples
+ * @param r
+ * @param device
+ * @param options
+ * @returns Samples, from `start` to `end` (included)
+ */
+export function entityHistory(r: Rng, device: Zigbee2MQTTDevice, options: EntityHistoryOptions = {}): EntityHistorySample[] {
+    const end = options.end ?? Date.now();
+    const start = options.start ?? end - 86_400_000;
+    const interval = options.interval ?? 300_000;
+
+    if (interval <= 0) {
+        throw new Error(`Invalid interval ${interval}`);
+    }
+
+    if (start > end) {
+        throw new Error(`Invalid window, start ${start} is after end ${end}`);
+    }
+
+    const exposes = (device.definition?.exposes ?? []) as Expose[];
+    const state: Zigbee2MQTTAPI["{friendlyName}"] = structuredClone(options.initial ?? exposesValue(r, exposes, start));
+    const ctx: HistoryContext = { r, time: start, elapsed: 0, raw: new Map(), changes: new Map() };
+    const samples: EntityHistorySample[] = [];
+
+    for (let time = start; time <= end; time += interval) {
+        ctx.elapsed = time - ctx.time;
+        ctx.time = time;
+
+        advance(ctx, exposes, state);
+
+        state.last_seen = new Date(time).toISOString();
+
+        samples.push({ timestamp: time, state: structuredClone(state) });
+    }
+
+    return samples;
+}
@@ -1,6 +1,14 @@
+import * as bridge from "./bridge.js";
 import * as generics from "./generics.js";
+import * as history from "./history.js";
+import * as network from "./network.js";
 import Rng from "./rng.js";
+import * as scenario from "./scenario.js";
+import * as simulator from "./simulator.js";
+import * as zcl from "./zcl.js";
+import * as zdo from "./zdo.js";
 import * as zigbee from "./zigbee.js";
 import * as zigbee2mqtt from "./zigbee2mqtt.js";
 
-export { Rng, generics, zigbee, zigbee2mqtt };
+// node-only modules (`cli`, `mqtt`) are kept out, see their own entry points
+export { Rng, bridge, generics, history, network, scenario, simulator, zcl, zdo, zigbee, zigbee2mqtt };
@@ -0,0 +1,496 @@
+import { EventEmitter } from "node:events";
+import { createServer, type Server, type Socket } from "node:net";
+import type { Zigbee2MQTTRequestEndpoints } from "zigbee2mqtt";
+import { type BridgeMessage, BridgeRequestHandler, type BridgeRequestHandlerOptions } from "./bridge.js";
+import type { FakeNetwork } from "./network.js";
+import { Simulator, type SimulatorOptions } from "./simulator.js";
+
+// MQTT 3.1.1 control packet types
+const CONNECT = 1;
+const CONNACK = 2;
+const PUBLISH = 3;
+const PUBACK = 4;
+const PUBREC = 5;
+const PUBREL = 6;
+const PUBCOMP = 7;
+const SUBSCRIBE = 8;
+const SUBACK = 9;
+const UNSUBSCRIBE = 10;
+const UNSUBACK = 11;
+const PINGREQ = 12;
+const PINGRESP = 13;
+const DISCONNECT = 14;
+
+type MqttClient = {
+    socket: Socket;
+    id: string;
+    connected: boolean;
+    subscriptions: Set<string>;
+    buffer: Buffer;
+};
+
+type MqttBrokerEvents = {
+    /** a client published a message */
+    message: [topic: string, payload: Buffer, clientId: string];
+    clientConnected: [clientId: string];
+    clientDisconnected: [clientId: string];
+};
+
+/**
+ * Check if a topic matches a subscription filter (supports `+` and `#` wildcards)
+ * @param filter
+ * @param topic
+ * @returns
+ */
+export function topicMatches(filter: string, topic: string): boolean {
+    const filterLevels = filter.split("/");
+    const topicLevels = topic.split("/");
+
+    // wildcards never match topics starting with `$`
+    if (topic.startsWith("$") && (filterLevels[0] === "+" || filterLevels[0] === "#")) {
+        return false;
+    }
+
+    for (let i = 0; i < filterLevels.length; i++) {
+        if (filterLevels[i] === "#") {
+            return true;
+        }
+
+        if (i >= topicLevels.length || (filterLevels[i] !== "+" && filterLevels[i] !== topicLevels[i])) {
+            return false;
+        }
+    }
+
+    return filterLevels.length === topicLevels.length;
+}
+
+function encodeString(value: string): Buffer {
+    const str = Buffer.from(value, "utf8");
+    const len = Buffer.alloc(2);
+
+    len.writeUInt16BE(str.length);
+
+    return Buffer.concat([len, str]);
+}
+
+function encodePacket(type: number, flags: number, body: Buffer): Buffer {
+    const length: number[] = [];
+    let remaining = body.length;
+
+    do {
+        let byte = remaining % 128;
+        remaining = Math.floor(remaining / 128);
+
+        if (remaining > 0) {
+            byte |= 0x80;
+        }
+
+        length.push(byte);
+    } while (remaining > 0);
+
+    return Buffer.concat([Buffer.from([(type << 4) | flags, ...length]), body]);
+}
+
+function packetIdentifier(id: number): Buffer {
+    const buf = Buffer.alloc(2);
+
+    buf.writeUInt16BE(id);
+
+    return buf;
+}
+
+/**
+ * Minimal in-process MQTT 3.1.1 broker.
+ *
+ * Supports retained messages, wildcards subscriptions, QoS 0/1/2 publishing from clients (delivery always QoS 0).
+ * No authentication, no persistence, no will messages. Meant for local testing only.
+ */
+export class MqttBroker extends EventEmitter<MqttBrokerEvents> {
+    private readonly server: Server;
+    private readonly clients = new Set<MqttClient>();
+    private readonly retained = new Map<string, Buffer>();
+
+    constructor() {
+        super();
+
+        this.server = createServer((socket) => this.onConnection(socket));
+    }
+
+    /** Port listened on, once listening */
+    get port(): number | undefined {
+        const address = this.server.address();
+
+        return address && typeof address === "object" ? address.port : undefined;
+    }
+
+    /**
+     * Start listening
+     * @param port default: 1883, 0 picks a free port
+     * @param host default: localhost only
+     */
+    async listen(port = 1883, host = "127.0.0.1"): Promise<void> {
+        await new Promise<void>((resolve, reject) => {
+            this.server.once("error", reject);
+            this.server.listen(port, host, () => {
+                this.server.off("error", reject);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Disconnect all clients and stop listening
+     */
+    async close(): Promise<void> {
+        for (const client of this.clients) {
+            client.socket.destroy();
+        }
+
+        this.clients.clear();
+
+        await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    }
+
+    /**
+     * Publish a message to all matching subscribers
+     * @param topic
+     * @param payload
+     * @param retain Keep as last known value for future subscribers (empty payload clears)
+     */
+    publish(topic: string, payload: string | Buffer, retain = false): void {
+        const buf = typeof payload === "string" ? Buffer.from(payload, "utf8") : payload;
+
+        if (retain) {
+            if (buf.length === 0) {
+                this.retained.delete(topic);
+            } else {
+                this.retained.set(topic, buf);
+            }
+        }
+
+        for (const client of this.clients) {
+            if (client.connected) {
+                for (const filter of client.subscriptions) {
+                    if (topicMatches(filter, topic)) {
+                        client.socket.write(encodePacket(PUBLISH, 0, Buffer.concat([encodeString(topic), buf])));
+                        break;
+                    }
+                }
+            }
+        }
+    }
+
+    private onConnection(socket: Socket): void {
+        const client: MqttClient = { socket, id: "", connected: false, subscriptions: new Set(), buffer: Buffer.alloc(0) };
+
+        this.clients.add(client);
+        socket.on("data", (data) => {
+            client.buffer = Buffer.concat([client.buffer, data]);
+
+            try {
+                this.processBuffer(client);
+            } catch {
+                // malformed packet
+                socket.destroy();
+            }
+        });
+        socket.on("error", () => socket.destroy());
+        socket.on("close", () => {
+            this.clients.delete(client);
+
+            if (client.connected) {
+                this.emit("clientDisconnected", client.id);
+            }
+        });
+    }
+
+    private processBuffer(client: MqttClient): void {
+        while (client.buffer.length >= 2) {
+            let multiplier = 1;
+            let remaining = 0;
+            let offset = 1;
+            let byte: number;
+
+            do {
+                if (offset >= client.buffer.length) {
+                    // incomplete remaining length
+                    return;
+                }
+
+                byte = client.buffer[offset++];
+                remaining += (byte & 0x7f) * multiplier;
+                multiplier *= 128;
+
+                if (offset > 5) {
+                    throw new Error("Malformed remaining length");
+                }
+            } while (byte & 0x80);
+
+            if (client.buffer.length < offset + remaining) {
+                return;
+            }
+
+            const type = client.buffer[0] >> 4;
+            const flags = client.buffer[0] & 0x0f;
+            const body = client.buffer.subarray(offset, offset + remaining);
+            client.buffer = client.buffer.subarray(offset + remaining);
+
+            this.processPacket(client, type, flags, body);
+        }
+    }
+
+    private processPacket(client: MqttClient, type: number, flags: number, body: Buffer): void {
+        if (!client.connected && type !== CONNECT) {
+            throw new Error("Expected CONNECT");
+        }
+
+        switch (type) {
+            case CONNECT: {
+                const protocolLength = body.readUInt16BE(0);
+                const level = body[2 + protocolLength];
+                const clientIdOffset = 2 + protocolLength + 4;
+                const clientId = body.toString("utf8", clientIdOffset + 2, clientIdOffset + 2 + body.readUInt16BE(clientIdOffset));
+
+                // only 3.1 (3) & 3.1.1 (4)
+                if (level !== 3 && level !== 4) {
+                    client.socket.end(encodePacket(CONNACK, 0, Buffer.from([0x00, 0x01])));
+                    return;
+                }
+
+                client.id = clientId || `client_${client.socket.remotePort}`;
+                client.connected = true;
+
+                client.socket.write(encodePacket(CONNACK, 0, Buffer.from([0x00, 0x00])));
+                this.emit("clientConnected", client.id);
+                break;
+            }
+            case PUBLISH: {
+                const qos = (flags >> 1) & 0x03;
+                const retain = (flags & 0x01) === 0x01;
+                const topicLength = body.readUInt16BE(0);
+                const topic = body.toString("utf8", 2, 2 + topicLength);
+                let payloadOffset = 2 + topicLength;
+
+                if (qos > 0) {
+                    const id = body.subarray(payloadOffset, payloadOffset + 2);
+                    payloadOffset += 2;
+
+                    client.socket.write(encodePacket(qos === 1 ? PUBACK : PUBREC, 0, id));
+                }
+
+                const payload = Buffer.from(body.subarray(payloadOffset));
+
+                this.publish(topic, payload, retain);
+                this.emit("message", topic, payload, client.id);
+                break;
+            }
+            case PUBREL: {
+                client.socket.write(encodePacket(PUBCOMP, 0, body.subarray(0, 2)));
+                break;
+            }
+            case SUBSCRIBE: {
+                const id = body.readUInt16BE(0);
+                const granted: number[] = [];
+                const filters: string[] = [];
+
+                for (let i = 2; i < body.length; ) {
+                    const length = body.readUInt16BE(i);
+                    const filter = body.toString("utf8", i + 2, i + 2 + length);
+                    i += 2 + length + 1;
+
+                    client.subscriptions.add(filter);
+                    filters.push(filter);
+                    granted.push(0x00);
+                }
+
+                client.socket.write(encodePacket(SUBACK, 0, Buffer.concat([packetIdentifier(id), Buffer.from(granted)])));
+
+                for (const [topic, payload] of this.retained) {
+                    if (filters.some((filter) => topicMatches(filter, topic))) {
+                        client.socket.write(encodePacket(PUBLISH, 0x01, Buffer.concat([encodeString(topic), payload])));
+                    }
+                }
+
+                break;
+            }
+            case UNSUBSCRIBE: {
+                const id = body.readUInt16BE(0);
+
+                for (let i = 2; i < body.length; ) {
+                    const length = body.readUInt16BE(i);
+
+                    client.subscriptions.delete(body.toString("utf8", i + 2, i + 2 + length));
+                    i += 2 + length;
+                }
+
+                client.socket.write(encodePacket(UNSUBACK, 0, packetIdentifier(id)));
+                break;
+            }
+            case PINGREQ: {
+                client.socket.write(encodePacket(PINGRESP, 0, Buffer.alloc(0)));
+                break;
+            }
+            case DISCONNECT: {
+                client.socket.end();
+                break;
+            }
+        }
+    }
+}
+
+export type Zigbee2MQTTServerOptions = SimulatorOptions &
+    BridgeRequestHandlerOptions & {
+        /** default: 1883, 0 picks a free port */
+        port?: number;
+        /** default: localhost only */
+        host?: string;
+        /** default: from settings `mqtt.base_topic` */
+        baseTopic?: string;
+        /** Seed of the simulator. Default: 1 */
+        seed?: number;
+        /** Virtual time elapsed per real time. Default: 1 */
+        speed?: number;
+        /** Real time between two simulator steps (msec). Default: 1000 */
+        tickInterval?: number;
+    };
+
+/** Topics (relative to base topic) published as retained, like Zigbee2MQTT */
+const RETAINED_TOPICS = ["bridge/state", "bridge/info", "bridge/devices", "bridge/groups", "bridge/converters", "bridge/extensions"];
+
+/**
+ * Fake Zigbee2MQTT instance over MQTT, backed by a fake network.
+ * Runs an in-process broker, publishes retained "bridge/*" topics, streams simulated messages, answers "bridge/request/*",
+ * and applies "{friendlyName}/set" & "{friendlyName}/get" to device states.
+ */
+export class Zigbee2MQTTServer {
+    readonly network: FakeNetwork;
+    readonly broker: MqttBroker;
+    readonly simulator: Simulator;
+    readonly requests: BridgeRequestHandler;
+    readonly baseTopic: string;
+    private readonly options: Zigbee2MQTTServerOptions;
+    private timer: NodeJS.Timeout | undefined;
+
+    constructor(network: FakeNetwork, options: Zigbee2MQTTServerOptions = {}) {
+        this.network = network;
+        this.options = options;
+        this.broker = new MqttBroker();
+        this.simulator = new Simulator(network, options.seed, options);
+        this.requests = new BridgeRequestHandler(network, options.seed, options);
+        this.baseTopic = options.baseTopic ?? network.settings.mqtt.base_topic;
+
+        this.broker.on("message", (topic, payload) => this.onMessage(topic, payload));
+    }
+
+    /**
+     * Start the broker, publish initial messages, and start streaming
+     */
+    async start(): Promise<void> {
+        const { port = 1883, host = "127.0.0.1", speed = 1, tickInterval = 1000 } = this.options;
+
+        await this.broker.listen(port, host);
+
+        for (const message of this.simulator.initialMessages()) {
+            this.publish(message);
+        }
+
+        this.timer = setInterval(() => {
+            for (const message of this.simulator.advance(tickInterval * speed)) {
+                this.publish(message);
+            }
+        }, tickInterval);
+    }
+
+    /**
+     * Stop streaming and close the broker
+     */
+    async stop(): Promise<void> {
+        clearInterval(this.timer);
+
+        this.timer = undefined;
+
+        await this.broker.close();
+    }
+
+    /**
+     * Publish a message under the base topic
+     * @param message
+     */
+    publish(message: BridgeMessage): void {
+        const retain = RETAINED_TOPICS.includes(message.topic) || message.topic.endsWith("/availability");
+
+        this.broker.publish(`${this.baseTopic}/${message.topic}`, JSON.stringify(message.payload), retain);
+    }
+
+    private onMessage(topic: string, payload: Buffer): void {
+        const prefix = `${this.baseTopic}/`;
+
+        if (!topic.startsWith(prefix)) {
+            return;
+        }
+
+        const relative = topic.slice(prefix.length);
+
+        if (relative.startsWith("bridge/request/")) {
+            const result = this.requests.handle(relative as Zigbee2MQTTRequestEndpoints, payload.toString("utf8"));
+
+            this.publish(result.response);
+
+            for (const message of result.publish) {
+                this.publish(message);
+            }
+
+            return;
+        }
+
+        // "{friendlyNameOrId}/[{endpoint}/]set|get[/{attribute}]"
+        const match = relative.match(/^(.+)\/(set|get)(?:\/([^/]+))?$/);
+
+        if (!match || relative.startsWith("bridge/")) {
+            return;
+        }
+
+        const [, entity, command, attribute] = match;
+        let id = entity;
+        let endpoint: string | undefined;
+
+        // friendly names can contain `/`, only split endpoint if not a device
+        if (!this.network.getDevice(id) && id.includes("/")) {
+            endpoint = id.slice(id.lastIndexOf("/") + 1);
+            id = id.slice(0, id.lastIndexOf("/"));
+        }
+
+        try {
+            const message = this.parseEntityPayload(payload.toString("utf8"), attribute);
+            const state =
+                command === "set"
+                    ? this.network.setEntityState(id, message, endpoint)
+                    : this.network.getEntityState(id, Object.keys(message), endpoint);
+
+            this.publish({ topic: this.network.resolveDevice(id).friendly_name, payload: state });
+        } catch (error) {
+            this.publish({
+                topic: "bridge/logging",
+                payload: { level: "error", message: `Publish '${command}' to '${entity}' failed: ${(error as Error).message}`, namespace: "z2m" },
+            });
+        }
+    }
+
+    private parseEntityPayload(raw: string, attribute: string | undefined): Record<string, unknown> {
+        if (attribute) {
+            try {
+                return { [attribute]: JSON.parse(raw) };
+            } catch {
+                return { [attribute]: raw };
+            }
+        }
+
+        const parsed = JSON.parse(raw);
+
+        if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+            throw new Error("Invalid payload, expected an object");
+        }
+
+        return parsed;
+    }
+}
@@ -0,0 +1,981 @@
+import { access } from "zigbee-herdsman-converters";
+import type { Expose } from "zigbee-herdsman-converters/lib/types";
+import type { Zigbee2MQTTAPI, Zigbee2MQTTDevice, Zigbee2MQTTDeviceEndpointBinding, Zigbee2MQTTGroup } from "zigbee2mqtt";
+import {
+    COORDINATOR_TYPE_BY_ADAPTER,
+    DEFAULT_BIND_CLUSTERS,
+    type DeviceQuery,
+    type DeviceType,
+    findExposeByProperty,
+    type PubZigbee2MQTTSettings,
+    Zigbee2MQTTAPIFaker,
+    type Zigbee2MQTTAPIFakerOptions,
+    type Zigbee2MQTTAPIFakerSnapshot,
+} from "./zigbee2mqtt.js";
+
+/** Settings applied without restart, same as Zigbee2MQTT */
+const ON_THE_FLY_SETTINGS = ["homeassistant", "advanced.log_level", "advanced.log_namespaced_levels", "advanced.log_debug_namespace_ignore"];
+
+/** "{friendlyName}/set" keys not matching an expose, accepted and not stored, same as Zigbee2MQTT */
+const SET_IGNORED_KEYS = ["transition"];
+
+/**
+ * Validate a "{friendlyName}/set" value against an expose
+ * @param expose
+ * @param value
+ * @param current Value in current state (used for toggles & partial composites)
+ * @param path Property path, for errors
+ * @returns Value as stored in state
+ */
+function exposeSetValue(expose: Expose, value: unknown, current: unknown, path: string): unknown {
+    switch (expose.type) {
+        case "binary": {
+            const matches = (v: unknown) =>
+                v === value || (typeof v === "string" && typeof value === "string" && v.toLowerCase() === value.toLowerCase());
+
+            if (expose.value_toggle !== undefined && matches(expose.value_toggle)) {
+                return current === expose.value_on ? expose.value_off : expose.value_on;
+            }
+
+            if (matches(expose.value_on)) {
+                return expose.value_on;
+            }
+
+            if (matches(expose.value_off)) {
+                return expose.value_off;
+            }
+
+            throw new Error(`Invalid value '${value}' for '${path}', expected '${expose.value_on}' or '${expose.value_off}'`);
+        }
+        case "numeric": {
+            const preset = expose.presets?.find((p) => p.name === value);
+
+            if (preset) {
+                return preset.value;
+            }
+
+            if (typeof value !== "number" || !Number.isFinite(value)) {
+                throw new Error(`Invalid value '${value}' for '${path}', expected a number`);
+            }
+
+            if ((expose.value_min !== undefined && value < expose.value_min) || (expose.value_max !== undefined && value > expose.value_max)) {
+                throw new Error(`Value ${value} for '${path}' is out of range [${expose.value_min ?? "-∞"}, ${expose.value_max ?? "∞"}]`);
+            }
+
+            return value;
+        }
+        case "enum": {
+            if (!expose.values.includes(value as string | number)) {
+                throw new Error(`Invalid value '${value}' for '${path}', expected one of ${expose.values.join(", ")}`);
+            }
+
+            return value;
+        }
+        case "text": {
+            if (typeof value !== "string") {
+                throw new Error(`Invalid value '${value}' for '${path}', expected a string`);
+            }
+
+            return value;
+        }
+        case "list": {
+            if (!Array.isArray(value)) {
+                throw new Error(`Invalid value '${value}' for '${path}', expected a list`);
+            }
+
+            if (
+                (expose.length_min !== undefined && value.length < expose.length_min) ||
+                (expose.length_max !== undefined && value.length > expose.length_max)
+            ) {
+                throw new Error(`Invalid length ${value.length} for '${path}'`);
+            }
+
+            return value.map((item, i) => exposeSetValue(expose.item_type, item, undefined, `${path}[${i}]`));
+        }
+        default: {
+            if (!expose.features || value === null || typeof value !== "object" || Array.isArray(value)) {
+                throw new Error(`Invalid value '${value}' for '${path}', expected an object`);
+            }
+
+            const currentObject = (current !== null && typeof current === "object" ? current : {}) as Record<string, unknown>;
+            const result: Record<string, unknown> = { ...currentObject };
+
+            for (const key in value) {
+                const feature = findExposeByProperty(expose.features, key);
+
+                if (!feature) {
+                    throw new Error(`Unknown property '${path}.${key}'`);
+                }
+
+                if (!(feature.access & access.SET)) {
+                    throw new Error(`Property '${path}.${key}' is not writable`);
+                }
+
+                result[key] = exposeSetValue(feature, (value as Record<string, unknown>)[key], currentObject[key], `${path}.${key}`);
+            }
+
+            return result;
+        }
+    }
+}
+
+/**
+ * Deep merge `source` into `target`, `null` values remove the key
+ * @returns Paths of modified leaves (dot notation)
+ */
+function mergeSettings(target: Record<string, unknown>, source: Record<string, unknown>, path = ""): string[] {
+    const changed: string[] = [];
+
+    for (const key in source) {
+        const value = source[key];
+        const current = target[key];
+
+        if (
+            value !== null &&
+            typeof value === "object" &&
+            !Array.isArray(value) &&
+            current !== null &&
+            typeof current === "object" &&
+            !Array.isArray(current)
+        ) {
+            changed.push(...mergeSettings(current as Record<string, unknown>, value as Record<string, unknown>, `${path}${key}.`));
+        } else {
+            if (value === null) {
+                delete target[key];
+            } else {
+                target[key] = value;
+            }
+
+            changed.push(`${path}${key}`);
+        }
+    }
+
+    return changed;
+}
+
+/**
+ * Stateful fake Zigbee2MQTT network.
+ *
+ * Owns the coordinator, devices, groups and settings (PAN ID, channel, keys, etc.),
+ * every Zigbee2MQTTAPI payload is derived from these, keeping topics consistent with each other.
+ */
+export class FakeNetwork {
+    readonly faker: Zigbee2MQTTAPIFaker;
+    readonly coordinator: Zigbee2MQTTDevice;
+    readonly devices: Zigbee2MQTTDevice[];
+    readonly groups: Zigbee2MQTTGroup[];
+    private readonly state: Zigbee2MQTTAPI["bridge/state"];
+    private readonly info: Zigbee2MQTTAPI["bridge/info"];
+    private readonly converters: Zigbee2MQTTAPI["bridge/converters"];
+    private readonly extensions: Zigbee2MQTTAPI["bridge/extensions"];
+    private readonly entityStates = new Map<string, Zigbee2MQTTAPI["{friendlyName}"]>();
+    private readonly networkMaps = new Map<boolean, Zigbee2MQTTAPI["bridge/response/networkmap"]>();
+    private lastJoined: Zigbee2MQTTDevice | undefined;
+
+    /**
+     * @param seed
+     * @param deviceCount default: 20
+     * @param groupCount default: 4
+     * @param options Faker options (e.g. `clock`)
+     */
+    constructor(seed = 1, deviceCount = 20, groupCount = 4, options: Zigbee2MQTTAPIFakerOptions = {}) {
+        this.faker = new Zigbee2MQTTAPIFaker(seed, options);
+        this.coordinator = this.faker.coordinator();
+        this.devices = this.faker.devices(deviceCount);
+        this.groups = this.faker.groups(groupCount, this.devices);
+        this.faker.bindDevices(this.devices, this.groups);
+        this.state = { state: "online" };
+        this.info = this.faker.bridgeInfo(this.coordinator, this.devices, this.groups);
+        this.converters = this.faker.bridgeConverters();
+        this.extensions = this.faker.bridgeExtensions();
+    }
+
+    /** Settings as published in "bridge/info" (without devices/groups, see `bridgeInfo()`) */
+    get settings(): PubZigbee2MQTTSettings {
+        return this.info.config as PubZigbee2MQTTSettings;
+    }
+
+    get panId(): number {
+        return this.settings.advanced.pan_id;
+    }
+
+    /** `0x` format */
+    get extendedPanId(): string {
+        return this.info.network.extended_pan_id;
+    }
+
+    get channel(): number {
+        return this.settings.advanced.channel;
+    }
+
+    get networkKey(): number[] {
+        return this.settings.advanced.network_key;
+    }
+
+    /**
+     * Find a device (including coordinator) by IEEE address or friendly name
+     * @param ieeeOrFriendlyName
+     * @returns
+     */
+    getDevice(ieeeOrFriendlyName: string): Zigbee2MQTTDevice | undefined {
+        if (this.coordinator.ieee_address === ieeeOrFriendlyName || this.coordinator.friendly_name === ieeeOrFriendlyName) {
+            return this.coordinator;
+        }
+
+        return this.devices.find((d) => d.ieee_address === ieeeOrFriendlyName || d.friendly_name === ieeeOrFriendlyName);
+    }
+
+    /**
+     * Find a group by ID or friendly name
+     * @param idOrFriendlyName
+     * @returns
+     */
+    getGroup(idOrFriendlyName: number | string): Zigbee2MQTTGroup | undefined {
+        return this.groups.find((g) => g.id === idOrFriendlyName || g.friendly_name === idOrFriendlyName);
+    }
+
+    /**
+     * "bridge/state" payload
+     * @returns
+     */
+    bridgeState(): Zigbee2MQTTAPI["bridge/state"] {
+        return this.state;
+    }
+
+    /**
+     * "bridge/info" payload, with settings reflecting current devices & groups
+     * @returns
+     */
+    bridgeInfo(): Zigbee2MQTTAPI["bridge/info"] {
+        const settings = this.settings;
+        const devices: PubZigbee2MQTTSettings["devices"] = {};
+        const groups: PubZigbee2MQTTSettings["groups"] = {};
+
+        for (const device of [this.coordinator, ...this.devices]) {
+            devices[device.ieee_address] = { ...settings.devices[device.ieee_address], friendly_name: device.friendly_name };
+        }
+
+        for (const group of this.groups) {
+            groups[group.id] = { ...settings.groups[group.id], friendly_name: group.friendly_name };
+        }
+
+        return { ...this.info, config: { ...this.info.config, devices, groups } };
+    }
+
+    /**
+     * "bridge/health" payload (counters are re-generated on every call)
+     * @returns
+     */
+    bridgeHealth(): Zigbee2MQTTAPI["bridge/health"] {
+        return this.faker.bridgeHealth(this.devices);
+    }
+
+    /**
+     * "bridge/converters" payload
+     * @returns
+     */
+    bridgeConverters(): Zigbee2MQTTAPI["bridge/converters"] {
+        return this.converters;
+    }
+
+    /**
+     * "bridge/extensions" payload
+     * @returns
+     */
+    bridgeExtensions(): Zigbee2MQTTAPI["bridge/extensions"] {
+        return this.extensions;
+    }
+
+    /**
+     * "bridge/devices" payload, coordinator is always first
+     * @returns
+     */
+    bridgeDevices(): Zigbee2MQTTAPI["bridge/devices"] {
+        return this.faker.bridgeDevices(this.coordinator, this.devices);
+    }
+
+    /**
+     * "bridge/groups" payload
+     * @returns
+     */
+    bridgeGroups(): Zigbee2MQTTAPI["bridge/groups"] {
+        return this.faker.bridgeGroups(this.groups);
+    }
+
+    /**
+     * "bridge/response/networkmap" payload, derived from a tree/mesh topology of the network.
+     * The topology is generated once (until devices change), the map without routes is the same map with routes stripped.
+     * @param routes default: false
+     * @returns
+     */
+    networkMap(routes = false): Zigbee2MQTTAPI["bridge/response/networkmap"] {
+        let networkMap = this.networkMaps.get(routes);
+
+        if (!networkMap) {
+            const value = this.faker.networkMap(this.coordinator, this.devices, true, true);
+            const withRoutes: Zigbee2MQTTAPI["bridge/response/networkmap"] = { type: "raw", routes: true, value };
+            const withoutRoutes: Zigbee2MQTTAPI["bridge/response/networkmap"] = {
+                type: "raw",
+                routes: false,
+                value: { nodes: value.nodes, links: value.links.map((link) => ({ ...link, routes: [] })) },
+            };
+
+            this.networkMaps.set(true, withRoutes);
+            this.networkMaps.set(false, withoutRoutes);
+
+            networkMap = routes ? withRoutes : withoutRoutes;
+        }
+
+        return networkMap;
+    }
+
+    /**
+     * "{friendlyName}" payload (generated once per device)
+     * @param ieeeOrFriendlyName
+     * @returns
+     */
+    entityState(ieeeOrFriendlyName: string): Zigbee2MQTTAPI["{friendlyName}"] {
+        const device = this.getDevice(ieeeOrFriendlyName);
+
+        if (!device || device.type === "Coordinator") {
+            throw new Error(`Unknown device ${ieeeOrFriendlyName}`);
+        }
+
+        let state = this.entityStates.get(device.ieee_address);
+
+        if (!state) {
+            state = this.faker.entityState(device);
+
+            this.entityStates.set(device.ieee_address, state);
+        }
+
+        return state;
+    }
+
+    /**
+     * Merge given partial state into the "{friendlyName}" payload of a device
+     * @param ieeeOrFriendlyName
+     * @param partial
+     * @returns The updated payload
+     */
+    updateEntityState(ieeeOrFriendlyName: string, partial: Zigbee2MQTTAPI["{friendlyName}"]): Zigbee2MQTTAPI["{friendlyName}"] {
+        const state = this.entityState(ieeeOrFriendlyName);
+
+        Object.assign(state, partial);
+
+        return state;
+    }
+
+    /**
+     * Apply a "{friendlyName}/set" payload to the state of a device, validated against its exposes
+     * @param ieeeOrFriendlyName
+     * @param payload
+     * @param endpoint From "{friendlyName}/{endpoint}/set", properties are suffixed with it (e.g. `state_l1`)
+     * @returns The updated payload (copy)
+     * @throws if a property is unknown, not writable or value is invalid (nothing applied)
+     */
+    setEntityState(ieeeOrFriendlyName: string, payload: Record<string, unknown>, endpoint?: string): Zigbee2MQTTAPI["{friendlyName}"] {
+        const device = this.resolveDevice(ieeeOrFriendlyName);
+        const exposes = this.deviceExposes(device);
+        const state = this.entityState(device.ieee_address);
+        const changes: Zigbee2MQTTAPI["{friendlyName}"] = {};
+
+        for (const key in payload) {
+            if (SET_IGNORED_KEYS.includes(key)) {
+                continue;
+            }
+
+            const property = endpoint ? `${key}_${endpoint}` : key;
+            const expose = findExposeByProperty(exposes, property);
+
+            if (!expose) {
+                throw new Error(`No converter available for '${property}' on '${device.friendly_name}'`);
+            }
+
+            if (!(expose.access & access.SET)) {
+                throw new Error(`Property '${property}' of '${device.friendly_name}' is not writable`);
+            }
+
+            changes[property] = exposeSetValue(expose, payload[key], state[property], property);
+        }
+
+        return { ...this.updateEntityState(device.ieee_address, changes) };
+    }
+
+    /**
+     * Handle a "{friendlyName}/get" payload, validated against the exposes of the device
+     * @param ieeeOrFriendlyName
+     * @param properties Keys of the payload
+     * @param endpoint From "{friendlyName}/{endpoint}/get", properties are suffixed with it (e.g. `state_l1`)
+     * @returns The current payload (copy)
+     * @throws if a property is unknown or not readable
+     */
+    getEntityState(ieeeOrFriendlyName: string, properties: string[], endpoint?: string): Zigbee2MQTTAPI["{friendlyName}"] {
+        const device = this.resolveDevice(ieeeOrFriendlyName);
+        const exposes = this.deviceExposes(device);
+
+        for (const key of properties) {
+            const property = endpoint ? `${key}_${endpoint}` : key;
+            const expose = findExposeByProperty(exposes, property);
+
+            if (!expose) {
+                throw new Error(`No converter available for '${property}' on '${device.friendly_name}'`);
+            }
+
+            if (!(expose.access & access.GET)) {
+                throw new Error(`Property '${property}' of '${device.friendly_name}' is not readable`);
+            }
+        }
+
+        return { ...this.entityState(device.ieee_address) };
+    }
+
+    private deviceExposes(device: Zigbee2MQTTDevice): Expose[] {
+        if (device.type === "Coordinator" || !device.definition) {
+            throw new Error(`Device '${device.friendly_name}' is not supported`);
+        }
+
+        return device.definition.exposes as Expose[];
+    }
+
+    // #region Mutations
+
+    /**
+     * Find a device (including coordinator) by IEEE address or friendly name
+     * @param ieeeOrFriendlyName
+     * @returns
+     * @throws if not found
+     */
+    resolveDevice(ieeeOrFriendlyName: string): Zigbee2MQTTDevice {
+        const device = this.getDevice(ieeeOrFriendlyName);
+
+        if (!device) {
+            throw new Error(`Device '${ieeeOrFriendlyName}' does not exist`);
+        }
+
+        return device;
+    }
+
+    /**
+     * Find a group by ID or friendly name
+     * @param idOrFriendlyName
+     * @returns
+     * @throws if not found
+     */
+    resolveGroup(idOrFriendlyName: number | string): Zigbee2MQTTGroup {
+        const group =
+            this.getGroup(idOrFriendlyName) ??
+            (typeof idOrFriendlyName === "string" ? this.getGroup(Number.parseInt(idOrFriendlyName, 10)) : undefined);
+
+        if (!group) {
+            throw new Error(`Group '${idOrFriendlyName}' does not exist`);
+        }
+
+        return group;
+    }
+
+    /**
+     * Find an endpoint ID of a device by ID or name
+     * @param device
+     * @param endpoint "default" or undefined uses the first endpoint
+     * @returns
+     * @throws if not found
+     */
+    resolveEndpoint(device: Zigbee2MQTTDevice, endpoint: string | number | undefined): number {
+        const ids = Object.keys(device.endpoints).map(Number);
+
+        if (endpoint === undefined || endpoint === "default") {
+            if (ids.length > 0) {
+                return ids[0];
+            }
+        } else {
+            const id = ids.find((id) => id === Number(endpoint) || device.endpoints[id].name === endpoint);
+
+            if (id !== undefined) {
+                return id;
+            }
+        }
+
+        throw new Error(`Device '${device.friendly_name}' does not have endpoint '${endpoint}'`);
+    }
+
+    /** Device that joined last since start, if still in the network */
+    get lastJoinedDevice(): Zigbee2MQTTDevice | undefined {
+        return this.lastJoined && this.devices.includes(this.lastJoined) ? this.lastJoined : undefined;
+    }
+
+    /**
+     * Generate a device and add it to the network (as if it joined)
+     * @param typeOrQuery Optional specific device type, or criteria selecting the definition
+     * @param model Optional specific model (ZHC definition.model)
+     * @param joined Whether it joined since start (see `lastJoinedDevice`), false to add it as part of the initial network
+     * @returns
+     */
+    addDevice(typeOrQuery?: DeviceType | DeviceQuery, model?: string, joined = true): Zigbee2MQTTDevice {
+        const device = this.faker.device(typeOrQuery, model);
+
+        this.devices.push(device);
+
+        if (joined) {
+            this.lastJoined = device;
+        }
+        this.invalidate();
+
+        return device;
+    }
+
+    /**
+     * Rename a device
+     * @param from IEEE address or friendly name
+     * @param to
+     * @returns
+     */
+    renameDevice(from: string, to: string): Zigbee2MQTTDevice {
+        const device = this.resolveDevice(from);
+
+        if (device.friendly_name !== to) {
+            if (!this.faker.allocated.friendlyNames.add(to)) {
+                throw new Error(`Friendly name '${to}' is already in use`);
+            }
+
+            this.faker.allocated.friendlyNames.delete(device.friendly_name);
+
+            device.friendly_name = to;
+        }
+
+        this.invalidate();
+
+        return device;
+    }
+
+    /**
+     * Remove a device, its group memberships and bindings targeting it
+     * @param ieeeOrFriendlyName
+     * @returns
+     */
+    removeDevice(ieeeOrFriendlyName: string): Zigbee2MQTTDevice {
+        const device = this.resolveDevice(ieeeOrFriendlyName);
+
+        if (device.type === "Coordinator") {
+            throw new Error("Cannot remove the coordinator");
+        }
+
+        this.devices.splice(this.devices.indexOf(device), 1);
+
+        for (const group of this.groups) {
+            group.members = group.members.filter((m) => m.ieee_address !== device.ieee_address);
+        }
+
+        for (const d of [this.coordinator, ...this.devices]) {
+            for (const key in d.endpoints) {
+                const ep = d.endpoints[key];
+                ep.bindings = ep.bindings.filter((b) => b.target.type !== "endpoint" || b.target.ieee_address !== device.ieee_address);
+            }
+        }
+
+        delete this.settings.devices[device.ieee_address];
+        this.entityStates.delete(device.ieee_address);
+        this.faker.allocated.ieeeAddresses.delete(device.ieee_address);
+        this.faker.allocated.networkAddresses.delete(device.network_address);
+        this.faker.allocated.friendlyNames.delete(device.friendly_name);
+        this.invalidate();
+
+        return device;
+    }
+
+    /**
+     * Merge options into a device's settings
+     * @param ieeeOrFriendlyName
+     * @param options
+     * @returns Settings before and after
+     */
+    setDeviceOptions(ieeeOrFriendlyName: string, options: Record<string, unknown>): { from: Record<string, unknown>; to: Record<string, unknown> } {
+        const device = this.resolveDevice(ieeeOrFriendlyName);
+        const settings = this.settings.devices;
+        const from = { ...settings[device.ieee_address], friendly_name: device.friendly_name };
+        const to = { ...from };
+
+        // renaming goes through `renameDevice`
+        mergeSettings(to, { ...options, friendly_name: device.friendly_name });
+
+        settings[device.ieee_address] = to;
+
+        return { from, to };
+    }
+
+    /**
+     * Bind clusters from a device endpoint to another device endpoint or a group.
+     * Only clusters in output of the source, and input of the target (if device), can be bound.
+     * @param from IEEE address or friendly name
+     * @param fromEndpoint
+     * @param to IEEE address or friendly name of a device, or ID or friendly name of a group
+     * @param toEndpoint
+     * @param clusters default: all bindable
+     * @returns Bound and failed clusters
+     */
+    bind(
+        from: string,
+        fromEndpoint: string | number | undefined,
+        to: string | number,
+        toEndpoint?: string | number,
+        clusters?: string[],
+    ): { clusters: string[]; failed: string[] } {
+        const source = this.resolveDevice(from);
+        const sourceEp = source.endpoints[this.resolveEndpoint(source, fromEndpoint)];
+        const target = this.bindTarget(to, toEndpoint);
+        const targetInput =
+            target.type === "endpoint" ? this.resolveDevice(target.ieee_address).endpoints[target.endpoint].clusters.input : undefined;
+        const bound: string[] = [];
+        const failed: string[] = [];
+
+        for (const cluster of clusters ?? DEFAULT_BIND_CLUSTERS) {
+            if (sourceEp.clusters.output.includes(cluster) && (!targetInput || targetInput.includes(cluster))) {
+                bound.push(cluster);
+
+                if (!sourceEp.bindings.some((b) => b.cluster === cluster && this.isSameBindTarget(b.target, target))) {
+                    sourceEp.bindings.push({ cluster, target });
+                }
+            } else if (clusters) {
+                failed.push(cluster);
+            }
+        }
+
+        if (bound.length === 0) {
+            throw new Error(failed.length > 0 ? `Failed to bind clusters ${failed.join(", ")}` : "Nothing to bind");
+        }
+
+        this.invalidate();
+
+        return { clusters: bound, failed };
+    }
+
+    /**
+     * Remove bindings from a device endpoint to another device endpoint or a group.
+     * @param from IEEE address or friendly name
+     * @param fromEndpoint
+     * @param to IEEE address or friendly name of a device, or ID or friendly name of a group
+     * @param toEndpoint
+     * @param clusters default: all bound to target
+     * @returns Unbound and failed clusters
+     */
+    unbind(
+        from: string,
+        fromEndpoint: string | number | undefined,
+        to: string | number,
+        toEndpoint?: string | number,
+        clusters?: string[],
+    ): { clusters: string[]; failed: string[] } {
+        const source = this.resolveDevice(from);
+        const sourceEp = source.endpoints[this.resolveEndpoint(source, fromEndpoint)];
+        const target = this.bindTarget(to, toEndpoint);
+        const unbound: string[] = [];
+        const failed: string[] = [];
+
+        sourceEp.bindings = sourceEp.bindings.filter((b) => {
+            if (this.isSameBindTarget(b.target, target) && (!clusters || clusters.includes(b.cluster))) {
+                unbound.push(b.cluster);
+
+                return false;
+            }
+
+            return true;
+        });
+
+        for (const cluster of clusters ?? []) {
+            if (!unbound.includes(cluster)) {
+                failed.push(cluster);
+            }
+        }
+
+        if (unbound.length === 0) {
+            throw new Error(failed.length > 0 ? `Failed to unbind clusters ${failed.join(", ")}` : "Nothing to unbind");
+        }
+
+        this.invalidate();
+
+        return { clusters: unbound, failed };
+    }
+
+    /**
+     * Add a group
+     * @param friendlyName
+     * @param id default: lowest available
+     * @returns
+     */
+    addGroup(friendlyName: string, id?: number): Zigbee2MQTTGroup {
+        const { groupIds, friendlyNames } = this.faker.allocated;
+
+        if (id === undefined) {
+            groupIds.ensureAvailable(1);
+
+            id = 1;
+
+            while (groupIds.has(id)) {
+                id++;
+            }
+        } else if (groupIds.has(id)) {
+            throw new Error(`Group ID '${id}' is already in use`);
+        }
+
+        if (!friendlyNames.add(friendlyName)) {
+            throw new Error(`Friendly name '${friendlyName}' is already in use`);
+        }
+
+        groupIds.add(id);
+
+        const group: Zigbee2MQTTGroup = { id, friendly_name: friendlyName, description: undefined, scenes: [], members: [] };
+
+        this.groups.push(group);
+
+        return group;
+    }
+
+    /**
+     * Remove a group and bindings targeting it
+     * @param idOrFriendlyName
+     * @returns
+     */
+    removeGroup(idOrFriendlyName: number | string): Zigbee2MQTTGroup {
+        const group = this.resolveGroup(idOrFriendlyName);
+
+        this.groups.splice(this.groups.indexOf(group), 1);
+
+        for (const d of [this.coordinator, ...this.devices]) {
+            for (const key in d.endpoints) {
+                const ep = d.endpoints[key];
+                ep.bindings = ep.bindings.filter((b) => b.target.type !== "group" || b.target.id !== group.id);
+            }
+        }
+
+        delete this.settings.groups[group.id];
+        this.faker.allocated.groupIds.delete(group.id);
+        this.faker.allocated.friendlyNames.delete(group.friendly_name);
+        this.invalidate();
+
+        return group;
+    }
+
+    /**
+     * Rename a group
+     * @param from ID or friendly name
+     * @param to
+     * @returns
+     */
+    renameGroup(from: number | string, to: string): Zigbee2MQTTGroup {
+        const group = this.resolveGroup(from);
+
+        if (group.friendly_name !== to) {
+            if (!this.faker.allocated.friendlyNames.add(to)) {
+                throw new Error(`Friendly name '${to}' is already in use`);
+            }
+
+            this.faker.allocated.friendlyNames.delete(group.friendly_name);
+
+            group.friendly_name = to;
+        }
+
+        return group;
+    }
+
+    /**
+     * Merge options into a group's settings
+     * @param idOrFriendlyName
+     * @param options
+     * @returns Settings before and after
+     */
+    setGroupOptions(
+        idOrFriendlyName: number | string,
+        options: Record<string, unknown>,
+    ): { from: Record<string, unknown>; to: Record<string, unknown> } {
+        const group = this.resolveGroup(idOrFriendlyName);
+        const settings = this.settings.groups;
+        const from = { ...settings[group.id], friendly_name: group.friendly_name };
+        const to = { ...from };
+
+        // renaming goes through `renameGroup`
+        mergeSettings(to, { ...options, friendly_name: group.friendly_name });
+
+        settings[group.id] = to;
+
+        return { from, to };
+    }
+
+    /**
+     * Add a device endpoint to a group
+     * @param idOrFriendlyName Group
+     * @param ieeeOrFriendlyName Device
+     * @param endpoint
+     * @returns
+     */
+    addGroupMember(idOrFriendlyName: number | string, ieeeOrFriendlyName: string, endpoint?: string | number): Zigbee2MQTTGroup {
+        const group = this.resolveGroup(idOrFriendlyName);
+        const device = this.resolveDevice(ieeeOrFriendlyName);
+        const endpointId = this.resolveEndpoint(device, endpoint);
+
+        if (!group.members.some((m) => m.ieee_address === device.ieee_address && m.endpoint === endpointId)) {
+            group.members.push({ ieee_address: device.ieee_address, endpoint: endpointId });
+        }
+
+        return group;
+    }
+
+    /**
+     * Remove a device endpoint from a group
+     * @param idOrFriendlyName Group
+     * @param ieeeOrFriendlyName Device
+     * @param endpoint
+     * @returns
+     */
+    removeGroupMember(idOrFriendlyName: number | string, ieeeOrFriendlyName: string, endpoint?: string | number): Zigbee2MQTTGroup {
+        const group = this.resolveGroup(idOrFriendlyName);
+        const device = this.resolveDevice(ieeeOrFriendlyName);
+        const endpointId = this.resolveEndpoint(device, endpoint);
+
+        group.members = group.members.filter((m) => m.ieee_address !== device.ieee_address || m.endpoint !== endpointId);
+
+        return group;
+    }
+
+    /**
+     * Remove a device endpoint from all groups
+     * @param ieeeOrFriendlyName
+     * @param endpoint
+     * @returns Groups the endpoint was removed from
+     */
+    removeGroupMemberships(ieeeOrFriendlyName: string, endpoint?: string | number): Zigbee2MQTTGroup[] {
+        const device = this.resolveDevice(ieeeOrFriendlyName);
+        const endpointId = this.resolveEndpoint(device, endpoint);
+        const groups: Zigbee2MQTTGroup[] = [];
+
+        for (const group of this.groups) {
+            const count = group.members.length;
+            group.members = group.members.filter((m) => m.ieee_address !== device.ieee_address || m.endpoint !== endpointId);
+
+            if (group.members.length !== count) {
+                groups.push(group);
+            }
+        }
+
+        return groups;
+    }
+
+    /**
+     * Permit joining the network
+     * @param time seconds, 0 disables
+     */
+    permitJoin(time: number): void {
+        if (time < 0 || time > 254) {
+            throw new Error(`Invalid permit join time '${time}', must be in 0..254`);
+        }
+
+        this.info.permit_join = time > 0;
+        this.info.permit_join_end = time > 0 ? this.faker.clock() + time * 1000 : undefined;
+    }
+
+    /**
+     * Change adapter & network parameters (as if the network was re-formed), keeping settings and "bridge/info" consistent
+     * @param parameters
+     */
+    setNetworkParameters(parameters: { adapter?: PubZigbee2MQTTSettings["serial"]["adapter"]; channel?: number; panId?: number }): void {
+        const { adapter, channel, panId } = parameters;
+
+        this.checkNetworkParameters(channel, panId);
+
+        if (adapter !== undefined) {
+            this.settings.serial.adapter = adapter;
+            this.info.coordinator.type = COORDINATOR_TYPE_BY_ADAPTER[adapter] ?? this.info.coordinator.type;
+        }
+
+        if (channel !== undefined) {
+            this.settings.advanced.channel = channel;
+            this.info.network.channel = channel;
+        }
+
+        if (panId !== undefined) {
+            this.settings.advanced.pan_id = panId;
+            this.info.network.pan_id = panId;
+        }
+
+        this.invalidate();
+    }
+
+    /**
+     * Merge options into settings
+     * @param options
+     * @returns true if restart is required to apply
+     */
+    setOptions(options: Record<string, unknown>): boolean {
+        const { channel, pan_id: panId } = (options.advanced ?? {}) as { channel?: number; pan_id?: number };
+
+        this.checkNetworkParameters(channel, panId);
+
+        const changed = mergeSettings(this.settings as unknown as Record<string, unknown>, options);
+
+        // keep "bridge/info" network in sync with settings
+        this.setNetworkParameters({ channel, panId });
+        const restartRequired = changed.some((path) => !ON_THE_FLY_SETTINGS.some((setting) => path === setting || path.startsWith(`${setting}.`)));
+
+        this.info.log_level = this.settings.advanced.log_level;
+
+        if (restartRequired) {
+            this.info.restart_required = true;
+        }
+
+        return restartRequired;
+    }
+
+    private checkNetworkParameters(channel: number | undefined, panId: number | undefined): void {
+        if (channel !== undefined && (!Number.isInteger(channel) || channel < 11 || channel > 26)) {
+            throw new Error(`Invalid channel '${channel}', must be in 11..26`);
+        }
+
+        if (panId !== undefined && (!Number.isInteger(panId) || panId < 0x0001 || panId > 0xfffe)) {
+            throw new Error(`Invalid PAN ID '${panId}', must be in 0x0001..0xfffe`);
+        }
+    }
+
+    private bindTarget(to: string | number, toEndpoint: string | number | undefined): Zigbee2MQTTDeviceEndpointBinding["target"] {
+        const group = typeof to === "number" ? this.resolveGroup(to) : this.getGroup(to);
+
+        if (group) {
+            return { type: "group", id: group.id };
+        }
+
+        const device = this.resolveDevice(to as string);
+
+        return { type: "endpoint", ieee_address: device.ieee_address, endpoint: this.resolveEndpoint(device, toEndpoint) };
+    }
+
+    private isSameBindTarget(a: Zigbee2MQTTDeviceEndpointBinding["target"], b: Zigbee2MQTTDeviceEndpointBinding["target"]): boolean {
+        if (a.type === "group") {
+            return b.type === "group" && a.id === b.id;
+        }
+
+        return b.type === "endpoint" && a.ieee_address === b.ieee_address && a.endpoint === b.endpoint;
+    }
+
+    /** Clear everything derived from devices */
+    private invalidate(): void {
+        this.networkMaps.clear();
+    }
+
+    // #endregion
+
+    /**
+     * Snapshot object containing most static-ish "bridge" elements, same as `Zigbee2MQTTAPIFaker.snapshot()`
+     * @param routes Network map with routes, default: false
+     * @returns
+     */
+    snapshot(routes = false): Zigbee2MQTTAPIFakerSnapshot {
+        return {
+            state: this.bridgeState(),
+            info: this.bridgeInfo(),
+            health: this.bridgeHealth(),
+            converters: this.bridgeConverters(),
+            extensions: this.bridgeExtensions(),
+            devices: this.bridgeDevices(),
+            groups: this.bridgeGroups(),
+            networkMap: this.networkMap(routes),
+        };
+    }
+}
@@ -1,29 +1,292 @@
+/** Available PRNG algorithms */
+export type RngAlgorithm = "mulberry32" | "xoshiro128**" | "sfc32" | "pcg32";
+
+/** Serialisable state of a `Rng` */
+export type RngState = {
+    algorithm: RngAlgorithm;
+    /** Seed the generator was created with, forks derive from it */
+    seed: number | string;
+    /** Internal state words (uint32) */
+    state: number[];
+};
+
+type RngImplementation = {
+    /** Number of uint32 state words */
+    words: number;
+    /** Turn seed words into state (mutated), when not used as-is */
+    init?: (s: number[]) => void;
+    /** Advance the state (mutated) and return next uint32 */
+    next: (s: number[]) => number;
+};
+
+const MASK64 = (1n << 64n) - 1n;
+const PCG_MULTIPLIER = 6364136223846793005n;
+
+function rotl(x: number, k: number): number {
+    return (x << k) | (x >>> (32 - k));
+}
+
 /**
  * @see https://github.com/bryc/code/blob/master/jshash/PRNGs.md#mulberry32
+ * @param s
+ * @returns
+ */
+function mulberry32(s: number[]): number {
+    s[0] = (s[0] + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(s[0] ^ (s[0] >>> 15), 1 | s[0]);
+    r ^= r + Math.imul(r ^ (r >>> 7), 61 | r);
+
+    return (r ^ (r >>> 14)) >>> 0;
+}
+
+/**
+ * @see https://prng.di.unimi.it/xoshiro128starstar.c
+ * @param s
+ * @returns
+ */
+function xoshiro128ss(s: number[]): number {
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9);
+    const t = s[1] << 9;
+
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+
+    for (let i = 0; i < 4; i++) {
+        s[i] >>>= 0;
+    }
+
+    return result >>> 0;
+}
+
+/**
+ * @see https://pracrand.sourceforge.net/RNG_engines.txt
+ * @param s
+ * @returns
+ */
+function sfc32(s: number[]): number {
+    const [a, b, c, d] = s;
+    let t = (a + b) | 0;
+
+    s[0] = (b ^ (b >>> 9)) >>> 0;
+    s[1] = (c + (c << 3)) >>> 0;
+    s[2] = rotl(c, 21) >>> 0;
+    s[3] = (d + 1) >>> 0;
+    t = (t + s[3]) | 0;
+    s[2] = (s[2] + t) >>> 0;
+
+    return t >>> 0;
+}
+
+/**
+ * PCG-XSH-RR 64/32, state words: state (hi, lo), increment (hi, lo)
+ * @see https://www.pcg-random.org/download.html
+ * @param s
+ * @returns
+ */
+function pcg32(s: number[]): number {
+    const old = (BigInt(s[0]) << 32n) | BigInt(s[1]);
+    const inc = (BigInt(s[2]) << 32n) | BigInt(s[3]);
+    const state = (old * PCG_MULTIPLIER + inc) & MASK64;
+    const xorShifted = Number((((old >> 18n) ^ old) >> 27n) & 0xffffffffn);
+    const rot = Number(old >> 59n);
+
+    s[0] = Number(state >> 32n);
+    s[1] = Number(state & 0xffffffffn);
+
+    return ((xorShifted >>> rot) | (xorShifted << (-rot & 31))) >>> 0;
+}
+
+const ALGORITHMS: Record<RngAlgorithm, RngImplementation> = {
+    mulberry32: { words: 1, next: mulberry32 },
+    "xoshiro128**": {
+        words: 4,
+        init: (s) => {
+            // all-zero state is a fixed point
+            if (!s.some((w) => w !== 0)) {
+                s[0] = 1;
+            }
+        },
+        next: xoshiro128ss,
+    },
+    sfc32: {
+        words: 4,
+        init: (s) => {
+            // mix initial state
+            for (let i = 0; i < 15; i++) {
+                sfc32(s);
+            }
+        },
+        next: sfc32,
+    },
+    pcg32: {
+        words: 4,
+        init: (s) => {
+            // pcg32_srandom_r(initstate = s[0..1], initseq = s[2..3])
+            const initState = (BigInt(s[0]) << 32n) | BigInt(s[1]);
+            const inc = ((((BigInt(s[2]) << 32n) | BigInt(s[3])) << 1n) | 1n) & MASK64;
+
+            s[0] = 0;
+            s[1] = 0;
+            s[2] = Number(inc >> 32n);
+            s[3] = Number(inc & 0xffffffffn);
+
+            pcg32(s);
+
+            const state = (((BigInt(s[0]) << 32n) | BigInt(s[1])) + initState) & MASK64;
+            s[0] = Number(state >> 32n);
+            s[1] = Number(state & 0xffffffffn);
+
+            pcg32(s);
+        },
+        next: pcg32,
+    },
+};
+
+/**
+ * Expand a 32-bit seed into uint32 words
+ * @see https://github.com/bryc/code/blob/master/jshash/PRNGs.md#splitmix32
  * @param seed
+ * @param count
  * @returns
  */
-function mulberry32(seed: number) {
-    let t = seed >>> 0;
+function splitmix32(seed: number, count: number): number[] {
+    const words: number[] = [];
+    let a = seed | 0;
 
-    return () => {
-        t |= 0;
-        t = (t + 0x6d2b79f5) | 0;
-        let r = Math.imul(t ^ (t >>> 15), 1 | t);
-        r ^= r + Math.imul(r ^ (r >>> 7), 61 | r);
+    for (let i = 0; i < count; i++) {
+        a = (a + 0x9e3779b9) | 0;
+        let t = a ^ (a >>> 16);
+        t = Math.imul(t, 0x21f0aaad);
+        t ^= t >>> 15;
+        t = Math.imul(t, 0x735a2d97);
+        t ^= t >>> 15;
+
+        words.push(t >>> 0);
+    }
 
-        return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
-    };
+    return words;
 }
 
 /**
- * Seeded PRNG (fast, tiny)
+ * Hash a string into 4 uint32 words
+ * @see https://github.com/bryc/code/blob/master/jshash/PRNGs.md#addendum-a-seed-generating-functions
+ * @param str
+ * @returns
+ */
+export function cyrb128(str: string): [number, number, number, number] {
+    let h1 = 1779033703;
+    let h2 = 3144134277;
+    let h3 = 1013904242;
+    let h4 = 2773480762;
+
+    for (let i = 0; i < str.length; i++) {
+        const k = str.charCodeAt(i);
+        h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+        h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+        h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+        h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+    }
+
+    h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+    h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+    h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+    h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+    h1 ^= h2 ^ h3 ^ h4;
+    h2 ^= h1;
+    h3 ^= h1;
+    h4 ^= h1;
+
+    return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
+
+/**
+ * Seeded PRNG (fast, tiny), with selectable algorithm.
+ *
+ * Stability: for a given seed & algorithm, the stream of raw values is guaranteed to stay identical across releases
+ * (golden vectors in `test/rng.test.ts`), so recorded fixtures keep matching.
+ * String seeds are hashed (cyrb128), number seeds are used as-is (`mulberry32`) or expanded (splitmix32).
  */
 export default class Rng {
-    private next: () => number;
+    private readonly algorithm: RngAlgorithm;
+    private readonly seed: number | string;
+    private readonly s: number[];
+    private readonly implementation: RngImplementation;
+
+    /**
+     * @param seed default: `Date.now()`
+     * @param algorithm default: "mulberry32"
+     */
+    constructor(seed: number | string = Date.now(), algorithm: RngAlgorithm = "mulberry32") {
+        const implementation = ALGORITHMS[algorithm];
+
+        if (!implementation) {
+            throw new Error(`Unknown Rng algorithm ${algorithm}`);
+        }
+
+        this.algorithm = algorithm;
+        this.seed = typeof seed === "string" ? seed : seed >>> 0;
+        this.implementation = implementation;
+
+        if (typeof seed === "string") {
+            this.s = cyrb128(seed).slice(0, implementation.words);
+        } else if (implementation.words === 1) {
+            this.s = [seed >>> 0];
+        } else {
+            this.s = splitmix32(seed, implementation.words);
+        }
+
+        implementation.init?.(this.s);
+    }
 
-    constructor(seed: number = Date.now()) {
-        this.next = mulberry32(seed >>> 0);
+    /**
+     * Current position in the stream, can be serialised and restored with `setState`
+     * @returns
+     */
+    getState(): RngState {
+        return { algorithm: this.algorithm, seed: this.seed, state: [...this.s] };
+    }
+
+    /**
+     * Restore a position obtained from `getState` (algorithm & seed must match)
+     * @param state
+     */
+    setState(state: RngState): void {
+        if (state.algorithm !== this.algorithm || state.seed !== this.seed || state.state.length !== this.s.length) {
+            throw new Error(`Invalid state for Rng ${this.algorithm} with seed ${this.seed}`);
+        }
+
+        for (let i = 0; i < this.s.length; i++) {
+            this.s[i] = state.state[i] >>> 0;
+        }
+    }
+
+    /**
+     * New generator at the same position, drawing the same values from there on, independently
+     * @returns
+     */
+    clone(): Rng {
+        const rng = new Rng(this.seed, this.algorithm);
+
+        rng.setState(this.getState());
+
+        return rng;
+    }
+
+    /**
+     * Derive an independent generator (same algorithm) from the seed and given key (e.g. an IEEE address).
+     * Does not depend on (nor advance) the position of this generator, the same key always yields the same stream.
+     * @param label
+     * @returns
+     */
+    fork(label: string): Rng {
+        const seed = String(this.seed);
+
+        // typed & length-prefixed, so neither `42` & `"42"` nor `fork("a/b")` & `fork("a").fork("b")` collide
+        return new Rng(`${typeof this.seed === "number" ? "n" : "s"}${seed.length}:${seed}/${label.length}:${label}`, this.algorithm);
     }
 
     int(min: number, max: number): number {
@@ -54,18 +317,169 @@ export default class Rng {
         return v;
     }
 
-    hex(len: number): string {
-        let out = "";
+    /**
+     * Pick a value with probability proportional to its weight
+     * @param choices [value, weight] pairs, weights >= 0
+     * @returns
+     */
+    weightedPick<T>(choices: readonly (readonly [T, number])[]): T {
+        let total = 0;
+
+        for (const [, weight] of choices) {
+            if (weight < 0) {
+                throw new Error(`Invalid negative weight ${weight}`);
+            }
+
+            total += weight;
+        }
+
+        if (total <= 0) {
+            throw new Error("Cannot pick without positive weights");
+        }
+
+        let threshold = this.next() * total;
 
-        for (let i = 0; i < len; i++) {
-            out += "0123456789abcdef"[this.int(0, 15)];
+        for (const [value, weight] of choices) {
+            threshold -= weight;
+
+            if (threshold < 0) {
+                return value;
+            }
         }
 
-        // TODO: ensure no all-0 or all-F (often special cases in Zigbee)
+        // rounding, last with non-zero weight
+        return choices.findLast(([, weight]) => weight > 0)![0];
+    }
+
+    /**
+     * Shuffled copy of given array (Fisher-Yates)
+     * @param arr
+     * @returns
+     */
+    shuffle<T>(arr: readonly T[]): T[] {
+        return this.sample(arr, arr.length);
+    }
+
+    /**
+     * Pick `n` distinct elements (by position) of given array, uniformly, in random order
+     * @param arr
+     * @param n
+     * @returns
+     */
+    sample<T>(arr: readonly T[], n: number): T[] {
+        if (n < 0 || n > arr.length) {
+            throw new Error(`Cannot sample ${n} from ${arr.length} elements`);
+        }
+
+        const copy = [...arr];
+
+        // partial Fisher-Yates
+        for (let i = 0; i < n; i++) {
+            const j = this.int(i, copy.length - 1);
+            [copy[i], copy[j]] = [copy[j], copy[i]];
+        }
+
+        copy.length = n;
+
+        return copy;
+    }
+
+    /**
+     * Normal distribution (Box-Muller)
+     * @param mean
+     * @param stdDev
+     * @returns
+     */
+    gaussian(mean = 0, stdDev = 1): number {
+        // avoid log(0)
+        const u = 1 - this.next();
+        const v = this.next();
+
+        return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    }
+
+    /**
+     * Exponential distribution, e.g. time between independent events
+     * @param mean
+     * @returns
+     */
+    exponential(mean = 1): number {
+        return -Math.log(1 - this.next()) * mean;
+    }
+
+    /**
+     * Poisson distribution, e.g. number of independent events in a period
+     * @param lambda Average
+     * @returns
+     */
+    poisson(lambda: number): number {
+        if (lambda < 0) {
+            throw new Error(`Invalid lambda ${lambda}`);
+        }
+
+        // normal approximation, Knuth's would underflow
+        if (lambda > 30) {
+            return Math.max(0, Math.round(this.gaussian(lambda, Math.sqrt(lambda))));
+        }
+
+        const limit = Math.exp(-lambda);
+        let k = 0;
+        let p = this.next();
+
+        while (p > limit) {
+            k++;
+            p *= this.next();
+        }
+
+        return k;
+    }
+
+    /**
+     * @param n
+     * @returns
+     */
+    bytes(n: number): Buffer {
+        const buf = Buffer.alloc(n);
+
+        for (let i = 0; i < n; i++) {
+            buf[i] = this.int(0, 0xff);
+        }
+
+        return buf;
+    }
+
+    /**
+     * Hex string, never all-0 or all-F (often special cases in Zigbee, e.g. invalid/broadcast addresses)
+     * @param len
+     * @returns
+     */
+    hex(len: number): string {
+        let out: string;
+
+        do {
+            out = "";
+
+            for (let i = 0; i < len; i++) {
+                out += "0123456789abcdef"[this.int(0, 15)];
+            }
+        } while (len > 0 && (/^0+$/.test(out) || /^f+$/.test(out)));
+
         return out;
     }
 
     bigInt(): bigint {
         return BigInt(`0x${this.hex(this.int(2, 16))}`);
     }
+
+    /**
+     * Next raw value, uint32
+     * @returns
+     */
+    uint32(): number {
+        return this.implementation.next(this.s);
+    }
+
+    private next(): number {
+        return this.uint32() / 4294967296;
+    }
 }
@@ -0,0 +1,285 @@
+import type { Zigbee2MQTTAPI, Zigbee2MQTTDevice } from "zigbee2mqtt";
+import { FakeNetwork } from "./network.js";
+import Rng from "./rng.js";
+import {
+    type DeviceQuery,
+    definitionPowerKind,
+    definitionSupportsType,
+    findDefinitionByModel,
+    InterviewState,
+    type PubZigbee2MQTTSettings,
+    queryDefinitions,
+    zhcDefinitions,
+    zhcGpDefinitions,
+} from "./zigbee2mqtt.js";
+
+/** Device entry of a scenario, generating `count` devices, definition is selected by `model` or other criteria (random if none) */
+export type ScenarioDevice = DeviceQuery & {
+    /** Default: 1 */
+    count?: number;
+    /** Fixed friendly name, suffixed with `_1`, `_2`... when `count` > 1. Default: random */
+    friendlyName?: string;
+    /** Probability [0-1] of a device having failed its interview. Default: as generated */
+    interviewFailureRate?: number;
+    /** Friendly names of scenario groups the devices are members of (default endpoint) */
+    groups?: string[];
+    /** Properties overriding the generated device payload */
+    overrides?: Partial<Zigbee2MQTTDevice>;
+    /** Properties overriding the generated device state */
+    state?: Zigbee2MQTTAPI["{friendlyName}"];
+};
+
+/** Device (friendly name or IEEE address), with optional endpoint */
+export type ScenarioGroupMember = string | { device: string; endpoint?: string | number };
+
+export type ScenarioGroup = {
+    friendlyName: string;
+    /** Default: lowest available */
+    id?: number;
+    members?: ScenarioGroupMember[];
+};
+
+/**
+ * Declarative description of a fake installation, anything not specified is generated deterministically from `seed`.
+ * Plain JSON, other formats (e.g. YAML) can be parsed by the caller into the same structure.
+ */
+export type Scenario = {
+    /** Default: 1 */
+    seed?: number;
+    /** Reference time (msec since epoch) for generated timestamps. Default: now */
+    time?: number;
+    coordinator?: {
+        adapter?: PubZigbee2MQTTSettings["serial"]["adapter"];
+        /** 11..26 */
+        channel?: number;
+        /** 0x0001..0xfffe */
+        panId?: number;
+    };
+    devices?: ScenarioDevice[];
+    groups?: ScenarioGroup[];
+};
+
+/**
+ * Friendly names of the devices generated by a scenario entry (empty if random), `overrides.friendly_name` taking precedence
+ */
+function scenarioFriendlyNames(device: ScenarioDevice): string[] {
+    const count = device.count ?? 1;
+    const override = device.overrides?.friendly_name;
+
+    if (override !== undefined) {
+        return Array.from({ length: count }, () => override);
+    }
+
+    if (device.friendlyName === undefined) {
+        return [];
+    }
+
+    return count === 1 ? [device.friendlyName] : Array.from({ length: count }, (_v, i) => `${device.friendlyName}_${i + 1}`);
+}
+
+/**
+ * Definition criteria of a scenario entry
+ */
+function deviceQuery(device: ScenarioDevice): DeviceQuery {
+    const { count, friendlyName, interviewFailureRate, groups, overrides, state, ...query } = device;
+
+    return query;
+}
+
+/**
+ * Make a generated device match the result of its interview:
+ * failed leaves it unsupported without definition (no exposes), successful with a known type (never "Unknown")
+ */
+function applyInterviewResult(device: Zigbee2MQTTDevice, failed: boolean): void {
+    device.interview_state = failed ? InterviewState.Failed : InterviewState.Successful;
+    device.interview_completed = !failed;
+    device.interviewing = false;
+
+    if (failed) {
+        device.definition = undefined;
+        device.supported = false;
+    } else if (device.type === "Unknown") {
+        // generated devices always have a definition
+        const definition = findDefinitionByModel(device.definition!.model);
+
+        device.type =
+            definition && definitionPowerKind(definition) === "GreenPower"
+                ? "GreenPower"
+                : device.power_source === "Battery"
+                  ? "EndDevice"
+                  : "Router";
+    }
+}
+
+/**
+ * Validate a scenario, before anything is generated
+ * @param scenario
+ * @throws with all problems found
+ */
+export function validateScenario(scenario: Scenario): void {
+    const errors: string[] = [];
+    const groupNames = new Set((scenario.groups ?? []).map((g) => g.friendlyName));
+    const deviceNames = new Set<string>();
+
+    for (const [i, device] of (scenario.devices ?? []).entries()) {
+        const count = device.count ?? 1;
+
+        if (!Number.isInteger(count) || count < 1) {
+            errors.push(`devices[${i}]: invalid count '${device.count}'`);
+        }
+
+        if (device.model !== undefined) {
+            const definition = findDefinitionByModel(device.model);
+
+            if (!definition) {
+                errors.push(`devices[${i}]: unknown model '${device.model}'`);
+            } else if (device.type !== undefined && !definitionSupportsType(definition, device.type)) {
+                errors.push(`devices[${i}]: model '${device.model}' does not support device type ${device.type}`);
+            }
+        } else if (
+            !queryDefinitions(device, device.type === "GreenPower" ? zhcGpDefinitions : zhcDefinitions).some(
+                (definition) => device.type === undefined || definitionSupportsType(definition, device.type),
+            )
+        ) {
+            errors.push(`devices[${i}]: no definition matches ${JSON.stringify(deviceQuery(device))}`);
+        }
+
+        if (device.interviewFailureRate !== undefined && !(device.interviewFailureRate >= 0 && device.interviewFailureRate <= 1)) {
+            errors.push(`devices[${i}]: invalid interviewFailureRate '${device.interviewFailureRate}', must be in 0..1`);
+        }
+
+        for (const group of device.groups ?? []) {
+            if (!groupNames.has(group)) {
+                errors.push(`devices[${i}]: group '${group}' is not defined`);
+            }
+        }
+
+        for (const name of scenarioFriendlyNames(device)) {
+            if (deviceNames.has(name)) {
+                errors.push(`devices[${i}]: friendly name '${name}' is already in use`);
+            }
+
+            deviceNames.add(name);
+        }
+
+        if (device.overrides?.ieee_address !== undefined) {
+            deviceNames.add(device.overrides.ieee_address);
+        }
+    }
+
+    for (const [i, group] of (scenario.groups ?? []).entries()) {
+        for (const member of group.members ?? []) {
+            const name = typeof member === "string" ? member : member.device;
+
+            if (!deviceNames.has(name)) {
+                errors.push(`groups[${i}]: member '${name}' is not a scenario device`);
+            }
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid scenario:\n- ${errors.join("\n- ")}`);
+    }
+}
+
+/**
+ * Parse a JSON scenario
+ * @param json
+ * @returns
+ */
+export function parseScenario(json: string): Scenario {
+    const scenario = JSON.parse(json);
+
+    if (scenario === null || typeof scenario !== "object" || Array.isArray(scenario)) {
+        throw new Error("Invalid scenario, expected an object");
+    }
+
+    return scenario;
+}
+
+/**
+ * Generate a network from a scenario.
+ * Devices are generated in scenario order, with identifiers, names and anything not specified filled from `seed`.
+ * @param scenario
+ * @returns
+ */
+export function scenarioNetwork(scenario: Scenario): FakeNetwork {
+    validateScenario(scenario);
+
+    const seed = scenario.seed ?? 1;
+    const r = new Rng(seed).fork("scenario");
+    const network = new FakeNetwork(seed, 0, 0, { clock: scenario.time });
+
+    if (scenario.coordinator) {
+        network.setNetworkParameters(scenario.coordinator);
+    }
+
+    for (const group of scenario.groups ?? []) {
+        network.addGroup(group.friendlyName, group.id);
+    }
+
+    for (const spec of scenario.devices ?? []) {
+        const friendlyNames = scenarioFriendlyNames(spec);
+        const query = deviceQuery(spec);
+
+        for (let i = 0; i < (spec.count ?? 1); i++) {
+            // part of the network on startup
+            const device = network.addDevice(query, undefined, false);
+
+            if (spec.interviewFailureRate !== undefined) {
+                applyInterviewResult(device, r.bool(spec.interviewFailureRate));
+            }
+
+            if (friendlyNames[i] !== undefined) {
+                network.renameDevice(device.ieee_address, friendlyNames[i]);
+            }
+
+            if (spec.overrides) {
+                const { friendly_name: friendlyName, ...overrides } = spec.overrides;
+                const { ieeeAddresses, networkAddresses } = network.faker.allocated;
+
+                if (overrides.ieee_address !== undefined && overrides.ieee_address !== device.ieee_address) {
+                    if (!ieeeAddresses.add(overrides.ieee_address)) {
+                        throw new Error(`IEEE address '${overrides.ieee_address}' is already in use`);
+                    }
+
+                    ieeeAddresses.delete(device.ieee_address);
+                }
+
+                if (overrides.network_address !== undefined && overrides.network_address !== device.network_address) {
+                    if (!networkAddresses.add(overrides.network_address)) {
+                        throw new Error(`Network address '${overrides.network_address}' is already in use`);
+                    }
+
+                    networkAddresses.delete(device.network_address);
+                }
+
+                Object.assign(device, overrides);
+
+                if (friendlyName !== undefined) {
+                    network.renameDevice(device.ieee_address, friendlyName);
+                }
+            }
+
+            for (const group of spec.groups ?? []) {
+                network.addGroupMember(group, device.ieee_address);
+            }
+
+            if (spec.state) {
+                network.updateEntityState(device.ieee_address, spec.state);
+            }
+        }
+    }
+
+    for (const group of scenario.groups ?? []) {
+        for (const member of group.members ?? []) {
+            if (typeof member === "string") {
+                network.addGroupMember(group.friendlyName, member);
+            } else {
+                network.addGroupMember(group.friendlyName, member.device, member.endpoint);
+            }
+        }
+    }
+
+    return network;
+}
@@ -0,0 +1,366 @@
+import { access } from "zigbee-herdsman-converters";
+import type { Expose } from "zigbee-herdsman-converters/lib/types";
+import type { Zigbee2MQTTAPI, Zigbee2MQTTDevice } from "zigbee2mqtt";
+import type { FakeNetwork } from "./network.js";
+import Rng from "./rng.js";
+import { findExposeByProperty } from "./zigbee2mqtt.js";
+
+/** Message as published by Zigbee2MQTT, topic is relative to `base_topic` */
+export type SimulatorMessage = {
+    topic: string;
+    payload: Zigbee2MQTTAPI[keyof Zigbee2MQTTAPI];
+    /** msec since epoch (virtual time) */
+    timestamp: number;
+};
+
+export type SimulatorOptions = {
+    /** Start of virtual time, msec since epoch. Default: now, from the network's faker clock */
+    startTime?: number;
+    /** Interval between "bridge/health" (msec). Default: from settings `health.interval` */
+    healthInterval?: number;
+    /** Average interval between "bridge/logging" (msec). Default: 30 000 */
+    loggingInterval?: number;
+    /** Average interval between availability flips of a device (msec), 0 disables. Default: 3 600 000 if enabled in settings, else 0 */
+    availabilityInterval?: number;
+    /** Average interval between "bridge/event" (msec). Default: 1 800 000 */
+    eventInterval?: number;
+    /** Report interval range (seconds) for devices without configured reportings. Default: [60, 3600] */
+    defaultReportInterval?: [number, number];
+};
+
+type ScheduledKind = "state" | "availability" | "logging" | "event" | "health";
+
+type Scheduled = {
+    time: number;
+    kind: ScheduledKind;
+    device?: Zigbee2MQTTDevice;
+};
+
+/**
+ * Deterministic (given network & seed) stream of messages over virtual time, for a fake network.
+ *
+ * Virtual time only moves with `next()`/`advance()`, allowing to step through the stream.
+ */
+export class Simulator {
+    readonly network: FakeNetwork;
+    private readonly r: Rng;
+    private readonly queue: Scheduled[] = [];
+    private readonly availability = new Map<string, Zigbee2MQTTAPI["{friendlyName}/availability"]["state"]>();
+    /** Devices of the network already scheduled (or skipped, if disabled) */
+    private readonly known = new Set<Zigbee2MQTTDevice>();
+    private readonly healthInterval: number;
+    private readonly loggingInterval: number;
+    private readonly availabilityInterval: number;
+    private readonly eventInterval: number;
+    private readonly defaultReportInterval: [number, number];
+    private currentTime: number;
+
+    /**
+     * @param network
+     * @param seed Used for scheduling, payloads are generated by the network's faker
+     * @param options
+     */
+    constructor(network: FakeNetwork, seed = 1, options: SimulatorOptions = {}) {
+        const settings = network.settings;
+        this.network = network;
+        this.r = new Rng(seed);
+        this.currentTime = options.startTime ?? network.faker.clock();
+        this.healthInterval = options.healthInterval ?? settings.health.interval * 60_000;
+        this.loggingInterval = options.loggingInterval ?? 30_000;
+        this.availabilityInterval = options.availabilityInterval ?? (settings.availability.enabled ? 3_600_000 : 0);
+        this.eventInterval = options.eventInterval ?? 1_800_000;
+        this.defaultReportInterval = options.defaultReportInterval ?? [60, 3600];
+
+        for (const [name, interval] of [
+            ["health", this.healthInterval],
+            ["logging", this.loggingInterval],
+            ["event", this.eventInterval],
+        ] as const) {
+            if (!(interval > 0)) {
+                throw new Error(`Invalid ${name} interval ${interval}, must be greater than 0`);
+            }
+        }
+
+        if (!(this.availabilityInterval >= 0)) {
+            throw new Error(`Invalid availability interval ${this.availabilityInterval}, must be greater than or equal to 0`);
+        }
+
+        const [minReport, maxReport] = this.defaultReportInterval;
+
+        if (!(minReport > 0 && maxReport >= minReport)) {
+            throw new Error(`Invalid default report interval [${minReport}, ${maxReport}], must be greater than 0 and ordered`);
+        }
+
+        this.scheduleJoined();
+        this.schedule(this.currentTime + this.healthInterval, "health");
+        this.schedule(this.currentTime + this.jitter(this.loggingInterval), "logging");
+        this.schedule(this.currentTime + this.jitter(this.eventInterval), "event");
+    }
+
+    /** Current virtual time, msec since epoch */
+    get now(): number {
+        return this.currentTime;
+    }
+
+    /**
+     * Messages published on startup (bridge topics, then availability & state of every device), at current virtual time
+     * @returns
+     */
+    initialMessages(): SimulatorMessage[] {
+        const timestamp = this.currentTime;
+        const messages: SimulatorMessage[] = [
+            { topic: "bridge/state", payload: this.network.bridgeState(), timestamp },
+            { topic: "bridge/info", payload: this.network.bridgeInfo(), timestamp },
+            { topic: "bridge/devices", payload: this.network.bridgeDevices(), timestamp },
+            { topic: "bridge/groups", payload: this.network.bridgeGroups(), timestamp },
+            { topic: "bridge/converters", payload: this.network.bridgeConverters(), timestamp },
+            { topic: "bridge/extensions", payload: this.network.bridgeExtensions(), timestamp },
+        ];
+
+        for (const device of this.network.devices) {
+            const availability = this.availability.get(device.ieee_address);
+
+            if (availability && this.availabilityInterval > 0) {
+                messages.push({ topic: `${device.friendly_name}/availability`, payload: { state: availability }, timestamp });
+            }
+
+            if (!device.disabled) {
+                messages.push({ topic: device.friendly_name, payload: { ...this.network.entityState(device.ieee_address) }, timestamp });
+            }
+        }
+
+        return messages;
+    }
+
+    /**
+     * Advance virtual time to the next scheduled message and return it
+     * @returns
+     */
+    next(): SimulatorMessage {
+        // always at least health & logging scheduled
+        while (this.syncDevices()) {
+            const message = this.step();
+
+            if (message) {
+                return message;
+            }
+        }
+
+        throw new Error("Nothing scheduled");
+    }
+
+    /**
+     * Advance virtual time by given duration
+     * @param ms
+     * @returns Messages published during that time, in order
+     */
+    advance(ms: number): SimulatorMessage[] {
+        return this.advanceTo(this.currentTime + ms);
+    }
+
+    /**
+     * Advance virtual time up to given time (included)
+     * @param time msec since epoch
+     * @returns Messages published during that time, in order
+     */
+    advanceTo(time: number): SimulatorMessage[] {
+        const messages: SimulatorMessage[] = [];
+
+        while (this.syncDevices() && this.queue[0].time <= time) {
+            const message = this.step();
+
+            if (message) {
+                messages.push(message);
+            }
+        }
+
+        this.currentTime = Math.max(this.currentTime, time);
+
+        return messages;
+    }
+
+    /**
+     * Advance virtual time to the head of queue (not empty) and execute it
+     * @returns undefined if nothing published (e.g. state of an offline device)
+     */
+    private step(): SimulatorMessage | undefined {
+        const scheduled = this.queue.shift()!;
+        this.currentTime = scheduled.time;
+
+        return this.execute(scheduled);
+    }
+
+    private execute(scheduled: Scheduled): SimulatorMessage | undefined {
+        const timestamp = scheduled.time;
+
+        switch (scheduled.kind) {
+            case "state": {
+                const device = scheduled.device!;
+
+                this.schedule(timestamp + this.reportInterval(device), "state", device);
+
+                // keeps its schedule, resumes reporting once back online
+                if (!this.isOnline(device)) {
+                    return undefined;
+                }
+
+                const report = this.network.faker.entityState(device, true);
+
+                // writable properties only change through "{friendlyName}/set"
+                for (const key in report) {
+                    const expose = device.definition && findExposeByProperty(device.definition.exposes as Expose[], key);
+
+                    if (expose && expose.access & access.SET) {
+                        delete report[key];
+                    }
+                }
+
+                const payload = this.network.updateEntityState(device.ieee_address, { ...report, last_seen: new Date(timestamp).toISOString() });
+
+                // copy, network state keeps changing
+                return { topic: device.friendly_name, payload: { ...payload }, timestamp };
+            }
+            case "availability": {
+                const device = scheduled.device!;
+                const state = this.availability.get(device.ieee_address) === "online" ? "offline" : "online";
+
+                this.availability.set(device.ieee_address, state);
+                // offline devices usually come back faster
+                this.schedule(
+                    timestamp + this.jitter(state === "offline" ? this.availabilityInterval / 10 : this.availabilityInterval),
+                    "availability",
+                    device,
+                );
+
+                return { topic: `${device.friendly_name}/availability`, payload: { state }, timestamp };
+            }
+            case "logging": {
+                this.schedule(timestamp + this.jitter(this.loggingInterval), "logging");
+
+                return { topic: "bridge/logging", payload: this.network.faker.bridgeLogging(), timestamp };
+            }
+            case "event": {
+                this.schedule(timestamp + this.jitter(this.eventInterval), "event");
+
+                const devices = this.onlineDevices();
+
+                if (devices.length === 0) {
+                    return undefined;
+                }
+
+                return { topic: "bridge/event", payload: this.network.faker.bridgeEvent(this.r.pick(devices)), timestamp };
+            }
+            case "health": {
+                this.schedule(timestamp + this.healthInterval, "health");
+
+                return {
+                    topic: "bridge/health",
+                    payload: { ...this.network.faker.bridgeHealth(this.onlineDevices()), response_time: timestamp },
+                    timestamp,
+                };
+            }
+        }
+    }
+
+    /**
+     * Whether device is currently online (never for disabled devices)
+     */
+    private isOnline(device: Zigbee2MQTTDevice): boolean {
+        return this.availability.get(device.ieee_address) === "online";
+    }
+
+    /**
+     * Devices of the network currently online
+     */
+    private onlineDevices(): Zigbee2MQTTDevice[] {
+        return this.network.devices.filter((device) => this.isOnline(device));
+    }
+
+    /**
+     * Schedule devices that joined the network since last call (from current virtual time),
+     * drop scheduled entries of devices removed from network since, at head of queue
+     * @returns true if queue not empty
+     */
+    private syncDevices(): boolean {
+        this.scheduleJoined();
+
+        while (this.queue.length > 0 && this.queue[0].device && !this.network.devices.includes(this.queue[0].device)) {
+            this.queue.shift();
+        }
+
+        return this.queue.length > 0;
+    }
+
+    /**
+     * Schedule state & availability of devices not known yet, disabled devices never publish
+     */
+    private scheduleJoined(): void {
+        for (const device of this.network.devices) {
+            if (this.known.has(device)) {
+                continue;
+            }
+
+            this.known.add(device);
+
+            if (device.disabled) {
+                continue;
+            }
+
+            this.availability.set(device.ieee_address, "online");
+            this.schedule(this.currentTime + this.reportInterval(device), "state", device);
+
+            if (this.availabilityInterval > 0) {
+                this.schedule(this.currentTime + this.jitter(this.availabilityInterval), "availability", device);
+            }
+        }
+    }
+
+    /**
+     * Insert in queue, keeping it sorted by time, then insertion order (same time)
+     */
+    private schedule(time: number, kind: ScheduledKind, device?: Zigbee2MQTTDevice): void {
+        const scheduled: Scheduled = { time: Math.round(time), kind, device };
+        let low = 0;
+        let high = this.queue.length;
+
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+
+            if (this.queue[mid].time <= scheduled.time) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+
+        this.queue.splice(low, 0, scheduled);
+    }
+
+    /**
+     * Interval in 50..150% of given average
+     */
+    private jitter(average: number): number {
+        return Math.max(1, this.r.int(Math.ceil(average / 2), Math.floor((average * 3) / 2)));
+    }
+
+    /**
+     * Interval (msec) between two state reports, within configured reportings intervals if any
+     */
+    private reportInterval(device: Zigbee2MQTTDevice): number {
+        let min = Number.POSITIVE_INFINITY;
+        let max = Number.POSITIVE_INFINITY;
+
+        for (const key in device.endpoints) {
+            for (const reporting of device.endpoints[key].configured_reportings) {
+                min = Math.min(min, reporting.minimum_report_interval);
+                max = Math.min(max, reporting.maximum_report_interval);
+            }
+        }
+
+        if (max === Number.POSITIVE_INFINITY) {
+            [min, max] = this.defaultReportInterval;
+        }
+
+        return Math.max(1, this.r.int(Math.min(min, max), max)) * 1000;
+    }
+}
@@ -0,0 +1,634 @@
+import type { TFoundation } from "zigbee-herdsman/dist/zspec/zcl/definition/clusters-types.js";
+import { BuffaloZclDataType, DataType, DataTypeClass, Direction, FrameType } from "zigbee-herdsman/dist/zspec/zcl/definition/enums.js";
+import { Status } from "zigbee-herdsman/dist/zspec/zcl/definition/status.js";
+import type { Attribute, Cluster, Command, Struct, ZclArray, ZclDate, ZclTimeOfDay } from "zigbee-herdsman/dist/zspec/zcl/definition/tstype.js";
+import { getCluster, getDataTypeClass, getGlobalCommand } from "zigbee-herdsman/dist/zspec/zcl/utils.js";
+import { ZclFrame } from "zigbee-herdsman/dist/zspec/zcl/zclFrame.js";
+import { word } from "./generics.js";
+import type Rng from "./rng.js";
+import { clusterName, eui64 } from "./zigbee.js";
+
+/** Restrictions honoured when generating a value (as found in ZH attribute definitions) */
+export type ZclValueRestrictions = Pick<Attribute, "min" | "max" | "minExcl" | "maxExcl" | "length" | "minLen" | "maxLen">;
+
+/** Seconds between UNIX epoch and ZCL epoch (2000-01-01T00:00:00Z) */
+const ZCL_EPOCH = 946_684_800;
+
+/** Element types of generated arrays & structs */
+const COLLECTION_ELEMENT_TYPES = [
+    DataType.BOOLEAN,
+    DataType.UINT8,
+    DataType.UINT16,
+    DataType.INT16,
+    DataType.ENUM8,
+    DataType.BITMAP8,
+    DataType.CHAR_STR,
+];
+
+/**
+ * Length in bytes of a fixed-length integer data type (discrete DATA/BITMAP & analog UINT/INT)
+ * @param type
+ * @returns undefined if not an integer data type
+ */
+export function integerLength(type: DataType): number | undefined {
+    if (type >= DataType.DATA8 && type <= DataType.DATA64) {
+        return type - DataType.DATA8 + 1;
+    }
+
+    if (type >= DataType.BITMAP8 && type <= DataType.BITMAP64) {
+        return type - DataType.BITMAP8 + 1;
+    }
+
+    if (type >= DataType.UINT8 && type <= DataType.UINT64) {
+        return type - DataType.UINT8 + 1;
+    }
+
+    if (type >= DataType.INT8 && type <= DataType.INT64) {
+        return type - DataType.INT8 + 1;
+    }
+
+    if (type === DataType.ENUM8 || type === DataType.ENUM16) {
+        return type - DataType.ENUM8 + 1;
+    }
+}
+
+/**
+ * Generate an integer for a data type, never the non-value, within restrictions if any.
+ * 7 & 8 bytes types are generated as `bigint`, as expected by ZH.
+ */
+function integerValue(r: Rng, type: DataType, length: number, restrictions: ZclValueRestrictions): number | bigint {
+    const signed = type >= DataType.INT8 && type <= DataType.INT64;
+    const bits = length * 8;
+    const restrictedMin = restrictions.min ?? (restrictions.minExcl !== undefined ? restrictions.minExcl + 1 : undefined);
+    const restrictedMax = restrictions.max ?? (restrictions.maxExcl !== undefined ? restrictions.maxExcl - 1 : undefined);
+
+    if (length > 6) {
+        const half = 1n << BigInt(bits - 1);
+        let min = signed ? -half + 1n : 0n;
+        let max = signed ? half - 1n : (half << 1n) - 2n;
+
+        if (restrictedMin !== undefined && BigInt(Math.ceil(restrictedMin)) > min) {
+            min = BigInt(Math.ceil(restrictedMin));
+        }
+
+        if (restrictedMax !== undefined && BigInt(Math.floor(restrictedMax)) < max) {
+            max = BigInt(Math.floor(restrictedMax));
+        }
+
+        if (min > max) {
+            throw new Error(`Invalid restrictions [${min}, ${max}] for data type ${DataType[type]}`);
+        }
+
+        const raw = BigInt(`0x${r.bytes(length).toString("hex")}`);
+        const value = signed ? BigInt.asIntN(bits, raw) : raw;
+
+        // wrapped into bounds when out of them (non-value or restricted)
+        return value >= min && value <= max ? value : min + (raw % (max - min + 1n));
+    }
+
+    let min = signed ? -(2 ** (bits - 1)) + 1 : 0;
+    let max = signed ? 2 ** (bits - 1) - 1 : 2 ** bits - 2;
+
+    if (restrictedMin !== undefined) {
+        min = Math.max(min, restrictedMin);
+    }
+
+    if (restrictedMax !== undefined) {
+        max = Math.min(max, restrictedMax);
+    }
+
+    if (min > max) {
+        throw new Error(`Invalid restrictions [${min}, ${max}] for data type ${DataType[type]}`);
+    }
+
+    return r.int(min, max);
+}
+
+/**
+ * Generate a float, rounded to 2 decimals (to nearest single precision for SINGLE_PREC), within restrictions if any
+ */
+function floatValue(r: Rng, type: DataType, restrictions: ZclValueRestrictions): number {
+    const min = restrictions.min ?? restrictions.minExcl ?? -1000;
+    const max = restrictions.max ?? restrictions.maxExcl ?? 1000;
+    const value = Math.round(r.float(min, max) * 100) / 100;
+
+    return type === DataType.SINGLE_PREC ? Math.fround(value) : value;
+}
+
+/**
+ * Length of a generated string or collection
+ */
+function valueLength(r: Rng, restrictions: ZclValueRestrictions, defaultMax: number): number {
+    return restrictions.length ?? r.int(restrictions.minLen ?? 0, restrictions.maxLen ?? Math.max(defaultMax, restrictions.minLen ?? 0));
+}
+
+/**
+ * Generate a valid value for a ZCL data type, in the format used by ZH (e.g. `bigint` for 64-bit integers, `Buffer` for octet strings).
+ * @param r
+ * @param type
+ * @param restrictions Honoured where defined (numeric bounds, string & collection lengths)
+ * @param time Reference time for time-based types (msec since epoch)
+ * @returns
+ */
+export function zclValue(r: Rng, type: DataType, restrictions: ZclValueRestrictions = {}, time: number = Date.now()): unknown {
+    const length = integerLength(type);
+
+    if (length !== undefined) {
+        return integerValue(r, type, length, restrictions);
+    }
+
+    switch (type) {
+        case DataType.NO_DATA:
+        case DataType.UNKNOWN: {
+            return undefined;
+        }
+        case DataType.BOOLEAN: {
+            return r.int(0, 1);
+        }
+        case DataType.SEMI_PREC:
+        case DataType.SINGLE_PREC:
+        case DataType.DOUBLE_PREC: {
+            return floatValue(r, type, restrictions);
+        }
+        case DataType.OCTET_STR:
+        case DataType.LONG_OCTET_STR: {
+            return r.bytes(valueLength(r, restrictions, 16));
+        }
+        case DataType.CHAR_STR:
+        case DataType.LONG_CHAR_STR: {
+            const len = valueLength(r, restrictions, 16);
+            let str = "";
+
+            while (str.length < len) {
+                str += str.length === 0 ? word(r) : `_${word(r)}`;
+            }
+
+            return str.slice(0, len);
+        }
+        case DataType.ARRAY:
+        case DataType.SET:
+        case DataType.BAG: {
+            const elementType = r.pick(COLLECTION_ELEMENT_TYPES);
+            const count = valueLength(r, restrictions, 8);
+
+            return { elementType, elements: Array.from({ length: count }, () => zclValue(r, elementType, {}, time)) } satisfies ZclArray;
+        }
+        case DataType.STRUCT: {
+            const count = valueLength(r, restrictions, 4);
+
+            return Array.from({ length: count }, () => {
+                const elmType = r.pick(COLLECTION_ELEMENT_TYPES);
+
+                return { elmType, elmVal: zclValue(r, elmType, {}, time) };
+            }) satisfies Struct[];
+        }
+        case DataType.TOD: {
+            const date = new Date(time);
+
+            return {
+                hours: date.getUTCHours(),
+                minutes: date.getUTCMinutes(),
+                seconds: date.getUTCSeconds(),
+                hundredths: Math.floor(date.getUTCMilliseconds() / 10),
+            } satisfies ZclTimeOfDay;
+        }
+        case DataType.DATE: {
+            const date = new Date(time);
+
+            return {
+                year: date.getUTCFullYear(),
+                month: date.getUTCMonth() + 1,
+                dayOfMonth: date.getUTCDate(),
+                // ZCL: 1 = Monday
+                dayOfWeek: ((date.getUTCDay() + 6) % 7) + 1,
+            } satisfies ZclDate;
+        }
+        case DataType.UTC: {
+            return Math.floor(time / 1000) - ZCL_EPOCH;
+        }
+        case DataType.CLUSTER_ID: {
+            return getCluster(clusterName(r)).ID;
+        }
+        case DataType.ATTR_ID: {
+            return r.int(0x0000, 0xfffe);
+        }
+        case DataType.BAC_OID: {
+            return r.int(0, 0xfffffffe);
+        }
+        case DataType.IEEE_ADDR: {
+            return eui64(r);
+        }
+        case DataType.SEC_KEY: {
+            return r.bytes(16);
+        }
+        default: {
+            throw new Error(`Unsupported data type ${type}`);
+        }
+    }
+}
+
+/**
+ * Resolve a cluster from ZH definitions
+ * @param r
+ * @param key ID or name. Default: random (see `clusterName`)
+ * @returns
+ */
+export function zclCluster(r: Rng, key?: string | number): Cluster {
+    return getCluster(key ?? clusterName(r));
+}
+
+/**
+ * Resolve an attribute of a cluster
+ * @param r
+ * @param cluster
+ * @param key ID or name. Default: random (manufacturer-specific excluded)
+ * @returns
+ */
+export function zclAttribute(r: Rng, cluster: Cluster, key?: string | number): Attribute {
+    if (key !== undefined) {
+        const attribute = cluster.getAttribute(key);
+
+        if (!attribute) {
+            throw new Error(`Unknown attribute '${key}' in cluster '${cluster.name}'`);
+        }
+
+        return attribute;
+    }
+
+    const attributes = Object.values(cluster.attributes).filter((attribute) => attribute.manufacturerCode === undefined);
+
+    if (attributes.length === 0) {
+        throw new Error(`Cluster '${cluster.name}' has no attributes`);
+    }
+
+    return r.pick(attributes);
+}
+
+/**
+ * Generate a valid value for an attribute, honouring its restrictions
+ * @param r
+ * @param attribute
+ * @param time Reference time for time-based types (msec since epoch)
+ * @returns
+ */
+export function attributeValue(r: Rng, attribute: Attribute, time: number = Date.now()): unknown {
+    return zclValue(r, attribute.type, attribute, time);
+}
+
+/**
+ * Whether an attribute is flagged reportable and of a discrete or numeric analog type (i.e. reporting can be configured)
+ * @param attribute
+ * @returns
+ */
+export function isReportableAttribute(attribute: Pick<Attribute, "report" | "type">): boolean {
+    return (
+        attribute.report === true &&
+        (attribute.type <= DataType.ENUM16 || (attribute.type >= DataType.SEMI_PREC && attribute.type <= DataType.DOUBLE_PREC))
+    );
+}
+
+/**
+ * Attributes of a record, random if not specified (preferring those matching `filter`, if any)
+ */
+function recordAttributes(
+    r: Rng,
+    cluster: Cluster,
+    attributes: (string | number)[] | undefined,
+    filter?: (attribute: Attribute) => boolean,
+): (Attribute | number)[] {
+    if (attributes) {
+        return attributes.map((key) => cluster.getAttribute(key) ?? (typeof key === "number" ? key : zclAttribute(r, cluster, key)));
+    }
+
+    const candidates = Object.values(cluster.attributes).filter(
+        (attribute) => attribute.manufacturerCode === undefined && (!filter || filter(attribute)),
+    );
+
+    if (candidates.length === 0) {
+        return [zclAttribute(r, cluster)];
+    }
+
+    return r.sample(candidates, r.int(1, Math.min(4, candidates.length)));
+}
+
+/**
+ * Attributes of a record (see `recordAttributes`), throwing on unknown IDs
+ */
+function knownRecordAttributes(
+    r: Rng,
+    cluster: Cluster,
+    attributes: (string | number)[] | undefined,
+    filter?: (attribute: Attribute) => boolean,
+): Attribute[] {
+    return recordAttributes(r, cluster, attributes, filter).map((attribute) => {
+        if (typeof attribute === "number") {
+            throw new Error(`Unknown attribute '${attribute}' in cluster '${cluster.name}'`);
+        }
+
+        return attribute;
+    });
+}
+
+/**
+ * Generate the records of a "read attributes response" (as decoded by ZH).
+ * @param r
+ * @param cluster
+ * @param attributes IDs or names, IDs unknown to the cluster get an `UNSUPPORTED_ATTRIBUTE` status. Default: 1..4 random
+ * @param time Reference time for time-based types (msec since epoch)
+ * @returns
+ */
+export function readAttributesResponse(
+    r: Rng,
+    cluster: Cluster,
+    attributes?: (string | number)[],
+    time: number = Date.now(),
+): TFoundation["readRsp"] {
+    return recordAttributes(r, cluster, attributes).map((attribute) => {
+        if (typeof attribute === "number") {
+            return { attrId: attribute, status: Status.UNSUPPORTED_ATTRIBUTE };
+        }
+
+        return { attrId: attribute.ID, status: Status.SUCCESS, dataType: attribute.type, attrData: attributeValue(r, attribute, time) };
+    });
+}
+
+/**
+ * Generate the records of a "report attributes" (as decoded by ZH).
+ * @param r
+ * @param cluster
+ * @param attributes IDs or names. Default: 1..4 random, reportable if the cluster has any
+ * @param time Reference time for time-based types (msec since epoch)
+ * @returns
+ */
+export function reportAttributes(r: Rng, cluster: Cluster, attributes?: (string | number)[], time: number = Date.now()): TFoundation["report"] {
+    return knownRecordAttributes(r, cluster, attributes, (attribute) => attribute.report === true).map((attribute) => ({
+        attrId: attribute.ID,
+        dataType: attribute.type,
+        attrData: attributeValue(r, attribute, time),
+    }));
+}
+
+// #region Frames
+
+/** Global (foundation) commands that can be generated */
+export type ZclGlobalCommandName = "read" | "readRsp" | "write" | "configReport" | "report" | "defaultRsp";
+
+export const ZCL_GLOBAL_COMMANDS: readonly ZclGlobalCommandName[] = ["read", "readRsp", "write", "configReport", "report", "defaultRsp"];
+
+/** Statuses of generated default responses, weighted */
+const DEFAULT_RESPONSE_STATUSES: readonly (readonly [Status, number])[] = [
+    [Status.SUCCESS, 12],
+    [Status.FAILURE, 2],
+    [Status.UNSUP_COMMAND, 2],
+    [Status.INVALID_FIELD, 1],
+    [Status.INVALID_VALUE, 1],
+    [Status.NOT_AUTHORIZED, 1],
+];
+
+/**
+ * Generate the payload of a global command (as expected by ZH `ZclFrame.create`).
+ * @param r
+ * @param cluster
+ * @param command
+ * @param attributes IDs or names of the records' attributes. Default: 1..4 random, fitting the command if the cluster has any
+ *   (e.g. writable for `write`). Ignored for `defaultRsp`
+ * @param time Reference time for time-based types (msec since epoch)
+ * @returns
+ */
+export function globalCommandPayload(
+    r: Rng,
+    cluster: Cluster,
+    command: ZclGlobalCommandName,
+    attributes?: (string | number)[],
+    time: number = Date.now(),
+): unknown {
+    switch (command) {
+        case "read": {
+            return recordAttributes(r, cluster, attributes).map((attribute) => ({
+                attrId: typeof attribute === "number" ? attribute : attribute.ID,
+            })) satisfies TFoundation["read"];
+        }
+        case "readRsp": {
+            return readAttributesResponse(r, cluster, attributes, time);
+        }
+        case "write": {
+            return knownRecordAttributes(r, cluster, attributes, (attribute) => attribute.write === true).map((attribute) => ({
+                attrId: attribute.ID,
+                dataType: attribute.type,
+                attrData: attributeValue(r, attribute, time),
+            })) satisfies TFoundation["write"];
+        }
+        case "configReport": {
+            return knownRecordAttributes(r, cluster, attributes, isReportableAttribute).map((attribute) => {
+                const minRepIntval = r.pick([0, 1, 5, 10, 30, 60]);
+                const maxRepIntval = r.pick([300, 600, 900, 1800, 3600, 0xffff]);
+
+                if (getDataTypeClass(attribute.type) === DataTypeClass.ANALOG) {
+                    const repChange = zclValue(r, attribute.type, { min: 1, max: 100 }, time) as number;
+
+                    return {
+                        direction: Direction.CLIENT_TO_SERVER,
+                        attrId: attribute.ID,
+                        dataType: attribute.type,
+                        minRepIntval,
+                        maxRepIntval,
+                        repChange,
+                    };
+                }
+
+                return { direction: Direction.CLIENT_TO_SERVER, attrId: attribute.ID, dataType: attribute.type, minRepIntval, maxRepIntval };
+            }) satisfies TFoundation["configReport"];
+        }
+        case "report": {
+            return reportAttributes(r, cluster, attributes, time);
+        }
+        case "defaultRsp": {
+            const commandIds = Object.values(cluster.commands).map((c) => c.ID);
+
+            return {
+                cmdId: commandIds.length > 0 && r.bool() ? r.pick(commandIds) : getGlobalCommand(r.pick(ZCL_GLOBAL_COMMANDS)).ID,
+                statusCode: r.weightedPick(DEFAULT_RESPONSE_STATUSES),
+            } satisfies TFoundation["defaultRsp"];
+        }
+    }
+}
+
+/**
+ * Whether all parameters of a cluster-specific command can be generated (plain, known ZCL data types only)
+ * @param command
+ * @returns
+ */
+export function isSupportedCommand(command: Command): boolean {
+    return command.parameters.every((parameter) => parameter.type !== DataType.UNKNOWN && parameter.type < BuffaloZclDataType.USE_DATA_TYPE);
+}
+
+/**
+ * Generate the payload of a cluster-specific command (as expected by ZH `ZclFrame.create`).
+ * Parameters whose conditions are not met by previous parameters are omitted, as they would be when encoded.
+ * @param r
+ * @param command
+ * @param time Reference time for time-based types (msec since epoch)
+ * @returns
+ */
+export function clusterCommandPayload(r: Rng, command: Command, time: number = Date.now()): Record<string, unknown> {
+    const payload: Record<string, unknown> = {};
+
+    for (const parameter of command.parameters) {
+        if (!ZclFrame.conditionsValid(parameter, payload, undefined)) {
+            continue;
+        }
+
+        payload[parameter.name] = zclValue(r, parameter.type as DataType, parameter, time);
+    }
+
+    return payload;
+}
+
+/**
+ * Resolve a cluster-specific command, from client to server (`commands`) or server to client (`commandsResponse`)
+ */
+function clusterCommand(r: Rng, cluster: Cluster, key: string | number | undefined): [Command, Direction] | undefined {
+    const commands = [
+        ...Object.values(cluster.commands).map((command) => [command, Direction.CLIENT_TO_SERVER] as [Command, Direction]),
+        ...Object.values(cluster.commandsResponse).map((command) => [command, Direction.SERVER_TO_CLIENT] as [Command, Direction]),
+    ];
+
+    if (key !== undefined) {
+        const found = commands.find(([command]) => command.ID === key || command.name === key);
+
+        if (!found) {
+            throw new Error(`Unknown command '${key}' in cluster '${cluster.name}'`);
+        }
+
+        return found;
+    }
+
+    // a few definitions share an ID in the same direction, these could not be decoded back
+    const candidates = commands.filter(
+        ([command, direction]) =>
+            isSupportedCommand(command) &&
+            commands.every(([other, otherDirection]) => other === command || other.ID !== command.ID || otherDirection !== direction),
+    );
+
+    return candidates.length > 0 ? r.pick(candidates) : undefined;
+}
+
+/**
+ * Generate a complete ZCL frame (header & payload), see `ZclFrame.toBuffer` for encoding.
+ * Frames of manufacturer-specific clusters carry the cluster's manufacturer code.
+ * @param r
+ * @param cluster ID or name. Default: random (see `zclCluster`)
+ * @param command Global command name (see `ZCL_GLOBAL_COMMANDS`), or cluster-specific command ID or name. Default: random
+ * @param frameType Default: inferred from `command`, random if none
+ * @param time Reference time for time-based types (msec since epoch)
+ * @returns
+ */
+export function zclFrame(r: Rng, cluster?: string | number, command?: string | number, frameType?: FrameType, time: number = Date.now()): ZclFrame {
+    const zCluster = zclCluster(r, cluster);
+    const transactionSequenceNumber = r.int(0, 0xff);
+    const type =
+        frameType ??
+        (command === undefined
+            ? r.bool()
+                ? FrameType.GLOBAL
+                : FrameType.SPECIFIC
+            : ZCL_GLOBAL_COMMANDS.includes(command as ZclGlobalCommandName)
+              ? FrameType.GLOBAL
+              : FrameType.SPECIFIC);
+
+    if (type === FrameType.SPECIFIC) {
+        const resolved = clusterCommand(r, zCluster, command);
+
+        if (resolved) {
+            const [zCommand, direction] = resolved;
+
+            if (!isSupportedCommand(zCommand)) {
+                throw new Error(`Unsupported parameters for command '${zCommand.name}' in cluster '${zCluster.name}'`);
+            }
+
+            return ZclFrame.create(
+                FrameType.SPECIFIC,
+                direction,
+                r.bool(),
+                zCluster.manufacturerCode,
+                transactionSequenceNumber,
+                zCommand,
+                zCluster,
+                clusterCommandPayload(r, zCommand, time),
+                {},
+            );
+        }
+
+        if (frameType === FrameType.SPECIFIC) {
+            throw new Error(`Cluster '${zCluster.name}' has no supported commands`);
+        }
+    }
+
+    let globalCommand: ZclGlobalCommandName;
+
+    if (command === undefined || type === FrameType.SPECIFIC) {
+        const attributes = Object.values(zCluster.attributes).filter((attribute) => attribute.manufacturerCode === undefined);
+        const candidates = ZCL_GLOBAL_COMMANDS.filter(
+            (name) => name === "defaultRsp" || (attributes.length > 0 && (name !== "configReport" || attributes.some(isReportableAttribute))),
+        );
+        globalCommand = r.pick(candidates);
+    } else if (ZCL_GLOBAL_COMMANDS.includes(command as ZclGlobalCommandName)) {
+        globalCommand = command as ZclGlobalCommandName;
+    } else {
+        throw new Error(`Unsupported global command '${command}'`);
+    }
+
+    let direction: Direction;
+
+    switch (globalCommand) {
+        case "read":
+        case "write":
+        case "configReport": {
+            direction = Direction.CLIENT_TO_SERVER;
+            break;
+        }
+        case "readRsp":
+        case "report": {
+            direction = Direction.SERVER_TO_CLIENT;
+            break;
+        }
+        case "defaultRsp": {
+            direction = r.bool() ? Direction.CLIENT_TO_SERVER : Direction.SERVER_TO_CLIENT;
+            break;
+        }
+    }
+
+    return ZclFrame.create(
+        FrameType.GLOBAL,
+        direction,
+        // a default response is never answered
+        globalCommand === "defaultRsp" || r.bool(),
+        zCluster.manufacturerCode,
+        transactionSequenceNumber,
+        globalCommand,
+        zCluster,
+        globalCommandPayload(r, zCluster, globalCommand, undefined, time),
+        {},
+    );
+}
+
+/**
+ * Generate a complete ZCL frame, encoded (see `zclFrame`)
+ * @param r
+ * @param cluster ID or name. Default: random (see `zclCluster`)
+ * @param command Global command name (see `ZCL_GLOBAL_COMMANDS`), or cluster-specific command ID or name. Default: random
+ * @param frameType Default: inferred from `command`, random if none
+ * @param time Reference time for time-based types (msec since epoch)
+ * @returns
+ */
+export function zclFrameBuffer(
+    r: Rng,
+    cluster?: string | number,
+    command?: string | number,
+    frameType?: FrameType,
+    time: number = Date.now(),
+): Buffer {
+    return zclFrame(r, cluster, command, frameType, time).toBuffer();
+}
+
+// #endregion
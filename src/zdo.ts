@@ -0,0 +1,616 @@
+import { GP_ENDPOINT, GP_PROFILE_ID, HA_PROFILE_ID } from "zigbee-herdsman/dist/zspec/consts.js";
+import type { Eui64 } from "zigbee-herdsman/dist/zspec/tstypes.js";
+import { Clusters } from "zigbee-herdsman/dist/zspec/zcl/definition/cluster.js";
+import { ManufacturerCode } from "zigbee-herdsman/dist/zspec/zcl/definition/manufacturerCode.js";
+import type { ClusterName } from "zigbee-herdsman/dist/zspec/zcl/definition/tstype.js";
+import { BuffaloZdo } from "zigbee-herdsman/dist/zspec/zdo/buffaloZdo.js";
+import { ClusterId as ZdoClusterId } from "zigbee-herdsman/dist/zspec/zdo/definition/clusters.js";
+import { RoutingTableStatus } from "zigbee-herdsman/dist/zspec/zdo/definition/enums.js";
+import { Status as ZdoStatus } from "zigbee-herdsman/dist/zspec/zdo/definition/status.js";
+import type {
+    ActiveEndpointsResponse,
+    EndDeviceAnnounce,
+    LQITableEntry,
+    LQITableResponse,
+    MACCapabilityFlags,
+    NetworkAddressResponse,
+    NodeDescriptorResponse,
+    PowerDescriptorResponse,
+    ResponseMap,
+    RoutingTableEntry,
+    RoutingTableResponse,
+    SimpleDescriptorResponse,
+} from "zigbee-herdsman/dist/zspec/zdo/definition/tstypes.js";
+import { createServerMask } from "zigbee-herdsman/dist/zspec/zdo/utils.js";
+import type { Zigbee2MQTTDevice } from "zigbee2mqtt";
+import { UniqueValues } from "./generics.js";
+import type Rng from "./rng.js";
+import { eui64, extendedPanIdToArray, networkAddress, type ZigbeeTopology, type ZigbeeTopologyNodeType, type ZigbeeTopologyRoute } from "./zigbee.js";
+
+/** Addresses of a node, as found in ZDO messages */
+export type ZdoNodeAddresses = {
+    eui64: Eui64;
+    nwkAddress: number;
+};
+
+/** ZDO messages that can be encoded (see `encodeZdoResponse`) */
+export type ZdoEncodableClusterId =
+    | ZdoClusterId.NETWORK_ADDRESS_RESPONSE
+    | ZdoClusterId.IEEE_ADDRESS_RESPONSE
+    | ZdoClusterId.NODE_DESCRIPTOR_RESPONSE
+    | ZdoClusterId.POWER_DESCRIPTOR_RESPONSE
+    | ZdoClusterId.SIMPLE_DESCRIPTOR_RESPONSE
+    | ZdoClusterId.ACTIVE_ENDPOINTS_RESPONSE
+    | ZdoClusterId.END_DEVICE_ANNOUNCE
+    | ZdoClusterId.LQI_TABLE_RESPONSE
+    | ZdoClusterId.ROUTING_TABLE_RESPONSE;
+
+/** Descriptors obtained when interviewing a device */
+export type ZdoDeviceDescriptors = {
+    nodeDescriptor: NodeDescriptorResponse;
+    powerDescriptor: PowerDescriptorResponse;
+    activeEndpoints: ActiveEndpointsResponse;
+    /** Same order as `activeEndpoints.endpointList` */
+    simpleDescriptors: SimpleDescriptorResponse[];
+};
+
+/** Frequency band bit for 2400 – 2483.5 MHz */
+const FREQUENCY_BAND_2_4_GHZ = 0b01000;
+
+/** Power source bits of the power descriptor */
+const POWER_SOURCE_MAINS = 0b0001;
+const POWER_SOURCE_RECHARGEABLE_BATTERY = 0b0010;
+const POWER_SOURCE_DISPOSABLE_BATTERY = 0b0100;
+
+/** HA device IDs picked for simple descriptors when not specified */
+const HA_DEVICE_IDS = [0x0000, 0x0002, 0x0051, 0x0100, 0x0101, 0x0102, 0x010c, 0x010d, 0x0106, 0x0107, 0x0202, 0x0302, 0x0402, 0x0820];
+
+/** Green Power proxy basic */
+const GP_PROXY_BASIC_DEVICE_ID = 0x0061;
+
+const MANUFACTURER_CODES = Object.values(ManufacturerCode).filter((value): value is number => typeof value === "number");
+
+/**
+ * Pick a manufacturer code (as allocated by the CSA, see ZH `ManufacturerCode`)
+ * @param r
+ * @returns
+ */
+export function manufacturerCode(r: Rng): number {
+    return r.pick(MANUFACTURER_CODES);
+}
+
+/**
+ * Build the MAC capability flags of a node
+ * @param type
+ * @param mainsPowered Default: true unless end device
+ * @returns
+ */
+export function macCapabilities(type: ZigbeeTopologyNodeType, mainsPowered = type !== "EndDevice"): MACCapabilityFlags {
+    const ffd = type === "EndDevice" ? 0 : 1;
+
+    return {
+        alternatePANCoordinator: 0,
+        deviceType: ffd,
+        powerSource: mainsPowered ? 1 : 0,
+        rxOnWhenIdle: ffd,
+        reserved1: 0,
+        reserved2: 0,
+        securityCapability: 0,
+        allocateAddress: 1,
+    };
+}
+
+/**
+ * Generate the node descriptor of a node
+ * @param r
+ * @param nwkAddress
+ * @param type
+ * @param manufacturer Manufacturer code. Default: random (see `manufacturerCode`)
+ * @param mainsPowered Default: true unless end device
+ * @returns
+ */
+export function nodeDescriptor(
+    r: Rng,
+    nwkAddress: number,
+    type: ZigbeeTopologyNodeType,
+    manufacturer: number = manufacturerCode(r),
+    mainsPowered = type !== "EndDevice",
+): NodeDescriptorResponse {
+    const coordinator = type === "Coordinator" ? 1 : 0;
+    const stackComplianceRevision = r.weightedPick([
+        [0, 0.2],
+        [21, 0.3],
+        [22, 0.4],
+        [23, 0.1],
+    ]);
+    const maxTxSize = r.pick([82, 127, 128, 160, 255]);
+
+    return {
+        nwkAddress,
+        logicalType: type === "Coordinator" ? 0b000 : type === "Router" ? 0b001 : 0b010,
+        fragmentationSupported: stackComplianceRevision >= 23 ? r.bool() : undefined,
+        apsFlags: 0,
+        frequencyBand: FREQUENCY_BAND_2_4_GHZ,
+        capabilities: macCapabilities(type, mainsPowered),
+        manufacturerCode: manufacturer,
+        maxBufSize: r.pick([80, 82, 100, 127]),
+        maxIncTxSize: maxTxSize,
+        serverMask: {
+            primaryTrustCenter: coordinator,
+            backupTrustCenter: 0,
+            deprecated1: 0,
+            deprecated2: 0,
+            deprecated3: 0,
+            deprecated4: 0,
+            networkManager: coordinator,
+            reserved1: 0,
+            reserved2: 0,
+            stackComplianceRevision,
+        },
+        maxOutTxSize: maxTxSize,
+        deprecated1: 0,
+        tlvs: [],
+    };
+}
+
+/**
+ * Generate the power descriptor of a node
+ * @param r
+ * @param nwkAddress
+ * @param mainsPowered
+ * @returns
+ */
+export function powerDescriptor(r: Rng, nwkAddress: number, mainsPowered: boolean): PowerDescriptorResponse {
+    if (mainsPowered) {
+        return {
+            nwkAddress,
+            currentPowerMode: 0b0000,
+            availPowerSources: POWER_SOURCE_MAINS,
+            currentPowerSource: POWER_SOURCE_MAINS,
+            currentPowerSourceLevel: 0b1100,
+        };
+    }
+
+    const battery = r.bool(0.8) ? POWER_SOURCE_DISPOSABLE_BATTERY : POWER_SOURCE_RECHARGEABLE_BATTERY;
+
+    return {
+        nwkAddress,
+        // periodically or when stimulated
+        currentPowerMode: r.pick([0b0001, 0b0010]),
+        availPowerSources: battery,
+        currentPowerSource: battery,
+        currentPowerSourceLevel: r.weightedPick([
+            [0b0000, 0.05],
+            [0b0100, 0.15],
+            [0b1000, 0.3],
+            [0b1100, 0.5],
+        ]),
+    };
+}
+
+/**
+ * Generate the simple descriptor of an endpoint
+ * @param r
+ * @param nwkAddress
+ * @param endpoint
+ * @param inClusterList IDs of server clusters
+ * @param outClusterList IDs of client clusters
+ * @param profileId Default: Green Power for GP endpoint, Home Automation otherwise
+ * @param deviceId Default: Green Power proxy basic for GP endpoint, random HA device otherwise
+ * @returns
+ */
+export function simpleDescriptor(
+    r: Rng,
+    nwkAddress: number,
+    endpoint: number,
+    inClusterList: number[],
+    outClusterList: number[],
+    profileId: number = endpoint === GP_ENDPOINT ? GP_PROFILE_ID : HA_PROFILE_ID,
+    deviceId: number = endpoint === GP_ENDPOINT ? GP_PROXY_BASIC_DEVICE_ID : r.pick(HA_DEVICE_IDS),
+): SimpleDescriptorResponse {
+    return {
+        nwkAddress,
+        // endpoint, profile, device, version, in count, out count
+        length: 8 + (inClusterList.length + outClusterList.length) * 2,
+        endpoint,
+        profileId,
+        deviceId,
+        deviceVersion: r.pick([0, 1]),
+        inClusterList,
+        outClusterList,
+    };
+}
+
+/**
+ * Build an active endpoints response
+ * @param nwkAddress
+ * @param endpointList
+ * @returns
+ */
+export function activeEndpoints(nwkAddress: number, endpointList: number[]): ActiveEndpointsResponse {
+    return { nwkAddress, endpointList };
+}
+
+/**
+ * Build a network/IEEE address response, associated devices are only present in extended responses
+ * @param addresses
+ * @param assocDevList Network addresses of associated devices (children)
+ * @param startIndex
+ * @returns
+ */
+export function addressResponse(addresses: ZdoNodeAddresses, assocDevList: number[] = [], startIndex = 0): NetworkAddressResponse {
+    return { eui64: addresses.eui64, nwkAddress: addresses.nwkAddress, startIndex, assocDevList };
+}
+
+/**
+ * Build a device announce
+ * @param addresses
+ * @param type
+ * @param mainsPowered Default: true unless end device
+ * @returns
+ */
+export function endDeviceAnnounce(addresses: ZdoNodeAddresses, type: ZigbeeTopologyNodeType, mainsPowered = type !== "EndDevice"): EndDeviceAnnounce {
+    return { nwkAddress: addresses.nwkAddress, eui64: addresses.eui64, capabilities: macCapabilities(type, mainsPowered) };
+}
+
+/**
+ * Generate the descriptors of a Zigbee2MQTT device, as obtained through its interview.
+ * Simple descriptors follow the device's endpoints & clusters (unknown cluster names are skipped).
+ * @param r
+ * @param device
+ * @param manufacturer Manufacturer code. Default: random (see `manufacturerCode`)
+ * @returns
+ */
+export function deviceDescriptors(r: Rng, device: Zigbee2MQTTDevice, manufacturer: number = manufacturerCode(r)): ZdoDeviceDescriptors {
+    const type: ZigbeeTopologyNodeType = device.type === "Coordinator" || device.type === "Router" ? device.type : "EndDevice";
+    const mainsPowered =
+        device.power_source === "Unknown" || device.power_source === undefined ? type !== "EndDevice" : device.power_source !== "Battery";
+    const nwkAddress = device.network_address;
+    const clusterIds = (names: string[]) =>
+        names.flatMap((name) => (name in Clusters ? [Clusters[name as ClusterName].ID] : [])).filter((id, i, ids) => ids.indexOf(id) === i);
+    const endpointList = Object.keys(device.endpoints).map((id) => Number.parseInt(id, 10));
+
+    return {
+        nodeDescriptor: nodeDescriptor(r, nwkAddress, type, manufacturer, mainsPowered),
+        powerDescriptor: powerDescriptor(r, nwkAddress, mainsPowered),
+        activeEndpoints: activeEndpoints(nwkAddress, endpointList),
+        simpleDescriptors: endpointList.map((endpoint) => {
+            const { input, output } = device.endpoints[endpoint].clusters;
+
+            return simpleDescriptor(r, nwkAddress, endpoint, clusterIds(input), clusterIds(output));
+        }),
+    };
+}
+
+// #region Tables
+
+/**
+ * Generate the addresses of every node of a topology, the coordinator always has network address 0x0000
+ * @param r
+ * @param topo
+ * @returns Same order as `topo.nodes`
+ */
+export function topologyAddresses(r: Rng, topo: ZigbeeTopology): ZdoNodeAddresses[] {
+    const ieeeAddresses = new UniqueValues<Eui64>("IEEE addresses", 2 ** 64);
+    const networkAddresses = new UniqueValues<number>("network addresses", 0xfff7);
+
+    return topo.nodes.map((node) => ({
+        eui64: ieeeAddresses.draw(() => eui64(r) as Eui64),
+        nwkAddress: node.type === "Coordinator" ? 0x0000 : networkAddresses.draw(() => networkAddress(r)),
+    }));
+}
+
+/**
+ * Build the neighbor table entries (as in Mgmt_Lqi_rsp) of a node of a topology
+ * @param r
+ * @param topo
+ * @param addresses Same order as `topo.nodes` (see `topologyAddresses`)
+ * @param index Index of the node in `topo.nodes`
+ * @param extendedPanId `0x` format
+ * @returns
+ */
+export function lqiTableEntries(r: Rng, topo: ZigbeeTopology, addresses: ZdoNodeAddresses[], index: number, extendedPanId: string): LQITableEntry[] {
+    const extendedPanIdArray = extendedPanIdToArray(extendedPanId);
+
+    return topo.nodes[index].neighbors.map((neighbor) => {
+        const node = topo.nodes[neighbor.index];
+        const endDevice = node.type === "EndDevice";
+
+        return {
+            extendedPanId: extendedPanIdArray,
+            eui64: addresses[neighbor.index].eui64,
+            nwkAddress: addresses[neighbor.index].nwkAddress,
+            deviceType: node.type === "Coordinator" ? 0x00 : endDevice ? 0x02 : 0x01,
+            rxOnWhenIdle: endDevice ? 0x00 : 0x01,
+            relationship: neighbor.relationship,
+            reserved1: 0,
+            // end devices never accept joins, routers only while the network is open
+            permitJoining: endDevice
+                ? 0x00
+                : r.weightedPick([
+                      [0x00, 0.8],
+                      [0x01, 0.1],
+                      [0x02, 0.1],
+                  ]),
+            reserved2: 0,
+            depth: node.depth,
+            lqi: neighbor.lqi,
+        };
+    });
+}
+
+/**
+ * Build the routing table entries (as in Mgmt_Rtg_rsp) of a node of a topology
+ * @param routes Routing table of the node (see `routingTables`)
+ * @param addresses Same order as `topo.nodes` (see `topologyAddresses`)
+ * @returns
+ */
+export function routingTableEntries(routes: ZigbeeTopologyRoute[], addresses: ZdoNodeAddresses[]): RoutingTableEntry[] {
+    return routes.map((route) => ({
+        destinationAddress: addresses[route.destination].nwkAddress,
+        status: route.status,
+        memoryConstrained: 0,
+        manyToOne: route.manyToOne ? 1 : 0,
+        routeRecordRequired: route.routeRecordRequired ? 1 : 0,
+        reserved1: 0,
+        nextHopAddress: addresses[route.nextHop].nwkAddress,
+    }));
+}
+
+/**
+ * Build a page of a neighbor table (Mgmt_Lqi_rsp)
+ * @param entries Whole neighbor table
+ * @param startIndex
+ * @param pageSize Maximum entries per page. Default: 3
+ * @returns
+ */
+export function lqiTableResponse(entries: LQITableEntry[], startIndex = 0, pageSize = 3): LQITableResponse {
+    return { neighborTableEntries: entries.length, startIndex, entryList: entries.slice(startIndex, startIndex + pageSize) };
+}
+
+/**
+ * Build a page of a routing table (Mgmt_Rtg_rsp)
+ * @param entries Whole routing table
+ * @param startIndex
+ * @param pageSize Maximum entries per page. Default: 10
+ * @returns
+ */
+export function routingTableResponse(entries: RoutingTableEntry[], startIndex = 0, pageSize = 10): RoutingTableResponse {
+    return { routingTableEntries: entries.length, startIndex, entryList: entries.slice(startIndex, startIndex + pageSize) };
+}
+
+// #endregion
+
+// #region Encoding
+
+function macCapabilitiesByte(capabilities: MACCapabilityFlags): number {
+    return (
+        (capabilities.alternatePANCoordinator & 0x01) |
+        ((capabilities.deviceType << 1) & 0x02) |
+        ((capabilities.powerSource << 2) & 0x04) |
+        ((capabilities.rxOnWhenIdle << 3) & 0x08) |
+        ((capabilities.reserved1 << 4) & 0x10) |
+        ((capabilities.reserved2 << 5) & 0x20) |
+        ((capabilities.securityCapability << 6) & 0x40) |
+        ((capabilities.allocateAddress << 7) & 0x80)
+    );
+}
+
+/**
+ * Write a 1-byte count, with a clear error instead of a RangeError when it does not fit
+ */
+function writeCount(buffalo: BuffaloZdo, name: string, count: number): void {
+    if (count > 0xff) {
+        throw new Error(`Too many ${name} (${count}), must be <= 255`);
+    }
+
+    buffalo.writeUInt8(count);
+}
+
+function writeAddressResponse(buffalo: BuffaloZdo, response: NetworkAddressResponse): void {
+    buffalo.writeIeeeAddr(response.eui64);
+    buffalo.writeUInt16(response.nwkAddress);
+
+    if (response.assocDevList.length > 0) {
+        writeCount(buffalo, "associated devices", response.assocDevList.length);
+        buffalo.writeUInt8(response.startIndex);
+        buffalo.writeListUInt16(response.assocDevList);
+    }
+}
+
+function writeNodeDescriptor(buffalo: BuffaloZdo, descriptor: NodeDescriptorResponse): void {
+    buffalo.writeUInt16(descriptor.nwkAddress);
+    buffalo.writeUInt8((descriptor.logicalType & 0x07) | (descriptor.fragmentationSupported ? 0x20 : 0));
+    buffalo.writeUInt8((descriptor.apsFlags & 0x07) | ((descriptor.frequencyBand << 3) & 0xf8));
+    buffalo.writeUInt8(macCapabilitiesByte(descriptor.capabilities));
+    buffalo.writeUInt16(descriptor.manufacturerCode);
+    buffalo.writeUInt8(descriptor.maxBufSize);
+    buffalo.writeUInt16(descriptor.maxIncTxSize);
+    buffalo.writeUInt16(createServerMask(descriptor.serverMask));
+    buffalo.writeUInt16(descriptor.maxOutTxSize);
+    buffalo.writeUInt8(descriptor.deprecated1);
+    buffalo.writeGlobalTLVs(descriptor.tlvs);
+}
+
+function writePowerDescriptor(buffalo: BuffaloZdo, descriptor: PowerDescriptorResponse): void {
+    buffalo.writeUInt16(descriptor.nwkAddress);
+    buffalo.writeUInt8((descriptor.currentPowerMode & 0x0f) | ((descriptor.availPowerSources & 0x0f) << 4));
+    buffalo.writeUInt8((descriptor.currentPowerSource & 0x0f) | ((descriptor.currentPowerSourceLevel & 0x0f) << 4));
+}
+
+function writeSimpleDescriptor(buffalo: BuffaloZdo, descriptor: SimpleDescriptorResponse): void {
+    if (descriptor.length > 0xff) {
+        throw new Error(`Simple descriptor of endpoint ${descriptor.endpoint} too long (${descriptor.length} bytes), must be <= 255`);
+    }
+
+    buffalo.writeUInt16(descriptor.nwkAddress);
+    buffalo.writeUInt8(descriptor.length);
+    buffalo.writeUInt8(descriptor.endpoint);
+    buffalo.writeUInt16(descriptor.profileId);
+    buffalo.writeUInt16(descriptor.deviceId);
+    buffalo.writeUInt8(descriptor.deviceVersion);
+    writeCount(buffalo, "input clusters", descriptor.inClusterList.length);
+    buffalo.writeListUInt16(descriptor.inClusterList);
+    writeCount(buffalo, "output clusters", descriptor.outClusterList.length);
+    buffalo.writeListUInt16(descriptor.outClusterList);
+}
+
+function writeLqiTable(buffalo: BuffaloZdo, response: LQITableResponse): void {
+    writeCount(buffalo, "neighbor table entries", response.neighborTableEntries);
+    buffalo.writeUInt8(response.startIndex);
+    writeCount(buffalo, "neighbor table entries", response.entryList.length);
+
+    for (const entry of response.entryList) {
+        buffalo.writeListUInt8(entry.extendedPanId);
+        buffalo.writeIeeeAddr(entry.eui64);
+        buffalo.writeUInt16(entry.nwkAddress);
+        buffalo.writeUInt8(
+            (entry.deviceType & 0x03) | ((entry.rxOnWhenIdle << 2) & 0x0c) | ((entry.relationship << 4) & 0x70) | ((entry.reserved1 << 7) & 0x80),
+        );
+        buffalo.writeUInt8((entry.permitJoining & 0x03) | ((entry.reserved2 << 2) & 0xfc));
+        buffalo.writeUInt8(entry.depth);
+        buffalo.writeUInt8(entry.lqi);
+    }
+}
+
+function writeRoutingTable(buffalo: BuffaloZdo, response: RoutingTableResponse): void {
+    writeCount(buffalo, "routing table entries", response.routingTableEntries);
+    buffalo.writeUInt8(response.startIndex);
+    writeCount(buffalo, "routing table entries", response.entryList.length);
+
+    for (const entry of response.entryList) {
+        // 0x5-0x7 are reserved
+        const status = entry.status === "UNKNOWN" ? 0x07 : RoutingTableStatus[entry.status];
+
+        buffalo.writeUInt16(entry.destinationAddress);
+        buffalo.writeUInt8(
+            (status & 0x07) |
+                ((entry.memoryConstrained << 3) & 0x08) |
+                ((entry.manyToOne << 4) & 0x10) |
+                ((entry.routeRecordRequired << 5) & 0x20) |
+                ((entry.reserved1 << 6) & 0xc0),
+        );
+        buffalo.writeUInt16(entry.nextHopAddress);
+    }
+}
+
+/**
+ * Upper bound of the size of an encoded payload, lists included (node descriptor TLVs are assumed to fit the base size)
+ */
+function maxPayloadSize(clusterId: ZdoEncodableClusterId, payload: NonNullable<ResponseMap[ZdoEncodableClusterId][1]>): number {
+    const base = 256;
+
+    switch (clusterId) {
+        case ZdoClusterId.NETWORK_ADDRESS_RESPONSE:
+        case ZdoClusterId.IEEE_ADDRESS_RESPONSE: {
+            return base + (payload as NetworkAddressResponse).assocDevList.length * 2;
+        }
+        case ZdoClusterId.SIMPLE_DESCRIPTOR_RESPONSE: {
+            const { inClusterList, outClusterList } = payload as SimpleDescriptorResponse;
+
+            return base + (inClusterList.length + outClusterList.length) * 2;
+        }
+        case ZdoClusterId.ACTIVE_ENDPOINTS_RESPONSE: {
+            return base + (payload as ActiveEndpointsResponse).endpointList.length;
+        }
+        case ZdoClusterId.LQI_TABLE_RESPONSE: {
+            // extended PAN ID, IEEE, network address, 4 bytes of flags, depth & LQI
+            return base + (payload as LQITableResponse).entryList.length * 22;
+        }
+        case ZdoClusterId.ROUTING_TABLE_RESPONSE: {
+            return base + (payload as RoutingTableResponse).entryList.length * 5;
+        }
+        default: {
+            return base;
+        }
+    }
+}
+
+/**
+ * Encode a ZDO response, decodable with ZH `BuffaloZdo.readResponse`.
+ * Payload is omitted when status is not SUCCESS (a device announce has no status).
+ * @param clusterId
+ * @param response Status & payload, as decoded by ZH
+ * @param transactionSequenceNumber If defined, prefixed as ZDO message overhead
+ * @returns
+ */
+export function encodeZdoResponse<K extends ZdoEncodableClusterId>(
+    clusterId: K,
+    response: ResponseMap[K],
+    transactionSequenceNumber?: number,
+): Buffer {
+    const [status, payload] = response;
+    // 256 bytes fits any status or announce, lists can go past it
+    const buffalo = new BuffaloZdo(Buffer.alloc(payload === undefined ? 256 : maxPayloadSize(clusterId, payload)));
+
+    if (transactionSequenceNumber !== undefined) {
+        buffalo.writeUInt8(transactionSequenceNumber);
+    }
+
+    if (clusterId === ZdoClusterId.END_DEVICE_ANNOUNCE) {
+        if (payload === undefined) {
+            throw new Error("Missing device announce payload");
+        }
+
+        const announce = payload as EndDeviceAnnounce;
+
+        buffalo.writeUInt16(announce.nwkAddress);
+        buffalo.writeIeeeAddr(announce.eui64);
+        buffalo.writeUInt8(macCapabilitiesByte(announce.capabilities));
+
+        return buffalo.getWritten();
+    }
+
+    buffalo.writeUInt8(status);
+
+    if (status !== ZdoStatus.SUCCESS) {
+        return buffalo.getWritten();
+    }
+
+    if (payload === undefined) {
+        throw new Error(`Missing payload for ZDO cluster ${ZdoClusterId[clusterId]}`);
+    }
+
+    switch (clusterId) {
+        case ZdoClusterId.NETWORK_ADDRESS_RESPONSE:
+        case ZdoClusterId.IEEE_ADDRESS_RESPONSE: {
+            writeAddressResponse(buffalo, payload as NetworkAddressResponse);
+            break;
+        }
+        case ZdoClusterId.NODE_DESCRIPTOR_RESPONSE: {
+            writeNodeDescriptor(buffalo, payload as NodeDescriptorResponse);
+            break;
+        }
+        case ZdoClusterId.POWER_DESCRIPTOR_RESPONSE: {
+            writePowerDescriptor(buffalo, payload as PowerDescriptorResponse);
+            break;
+        }
+        case ZdoClusterId.SIMPLE_DESCRIPTOR_RESPONSE: {
+            writeSimpleDescriptor(buffalo, payload as SimpleDescriptorResponse);
+            break;
+        }
+        case ZdoClusterId.ACTIVE_ENDPOINTS_RESPONSE: {
+            const { nwkAddress, endpointList } = payload as ActiveEndpointsResponse;
+
+            buffalo.writeUInt16(nwkAddress);
+            writeCount(buffalo, "active endpoints", endpointList.length);
+            buffalo.writeListUInt8(endpointList);
+            break;
+        }
+        case ZdoClusterId.LQI_TABLE_RESPONSE: {
+            writeLqiTable(buffalo, payload as LQITableResponse);
+            break;
+        }
+        case ZdoClusterId.ROUTING_TABLE_RESPONSE: {
+            writeRoutingTable(buffalo, payload as RoutingTableResponse);
+            break;
+        }
+        default: {
+            throw new Error(`Unsupported ZDO cluster ${clusterId}`);
+        }
+    }
+
+    return buffalo.getWritten();
+}
+
+// #endregion
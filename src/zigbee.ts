@@ -103,5 +103,289 @@ export function relationship(r: Rng, limitedSet?: ZigbeeRelationship[]) {
 }
 
 export function routingTableEntryStatus(r: Rng): keyof typeof RoutingTableStatus {
-    return r.bool(0.85) ? "ACTIVE" : r.pick(["ACTIVE", "DISCOVERY_UNDERWAY", "DISCOVERY_FAILED", "INACTIVE", "VALIDATION_UNDERWAY"]);
+    return r.weightedPick([
+        ["ACTIVE", 0.88],
+        ["DISCOVERY_UNDERWAY", 0.03],
+        ["DISCOVERY_FAILED", 0.03],
+        ["INACTIVE", 0.03],
+        ["VALIDATION_UNDERWAY", 0.03],
+    ]);
 }
+
+// #region Topology
+
+/** Node types taking part in a Zigbee topology ("Unknown" devices should be passed as "EndDevice") */
+export type ZigbeeTopologyNodeType = "Coordinator" | "Router" | "EndDevice";
+
+export type ZigbeeTopologyNeighbor = {
+    /** Index of the neighbor in `ZigbeeTopology.nodes` */
+    index: number;
+    /** Relationship of the neighbor relative to the node owning the neighbor table */
+    relationship: ZigbeeRelationship;
+    /** Link quality of transmissions received from the neighbor */
+    lqi: number;
+};
+
+export type ZigbeeTopologyNode = {
+    type: ZigbeeTopologyNodeType;
+    /** Index of the parent in `ZigbeeTopology.nodes`, -1 for the coordinator */
+    parent: number;
+    /** Hop count to the coordinator following the tree */
+    depth: number;
+    /** Indexes of the children in `ZigbeeTopology.nodes` */
+    children: number[];
+    /** Neighbor table, always empty for end devices */
+    neighbors: ZigbeeTopologyNeighbor[];
+};
+
+export type ZigbeeTopology = {
+    /** Same order as the types given on creation, coordinator first */
+    nodes: ZigbeeTopologyNode[];
+};
+
+export type ZigbeeTopologyOptions = {
+    /** Maximum children (routers and end devices) per coordinator/router, exceeded only when none has capacity left. Default: 32 */
+    maxChildren?: number;
+    /** Maximum depth of the tree, exceeded only when no coordinator/router within it has capacity left. Default: 15 */
+    maxDepth?: number;
+    /** Maximum routers (parent, children and siblings) in a neighbor table, exceeded only to join a parent. Default: 16 */
+    maxRouterNeighbors?: number;
+    /** Probability for two routers with a depth difference of at most 1 to be in radio range. Default: 0.3 */
+    meshDensity?: number;
+};
+
+/**
+ * Build a tree/mesh topology for the given node types:
+ *   - coordinator is the root (depth 0)
+ *   - routers join the coordinator or another router with child capacity left (within `maxDepth`)
+ *   - end devices join exactly one router/coordinator with child capacity left
+ *   - when no router/coordinator has capacity left (e.g. end devices outnumbering what routers can take),
+ *     the least loaded one is picked, as stochastic addressing does not strictly limit children
+ *   - routers in range of each other are siblings (both sides)
+ *
+ * Neighbor tables are symmetric: a parent lists its children, children (routers) list their parent, siblings list each other.
+ * @param r
+ * @param types First must be "Coordinator", no other "Coordinator" allowed
+ * @param options
+ * @returns
+ */
+export function topology(r: Rng, types: ZigbeeTopologyNodeType[], options: ZigbeeTopologyOptions = {}): ZigbeeTopology {
+    const { maxChildren = 32, maxDepth = 15, maxRouterNeighbors = 16, meshDensity = 0.3 } = options;
+
+    if (types[0] !== "Coordinator" || types.lastIndexOf("Coordinator") !== 0) {
+        throw new Error("Topology requires exactly one Coordinator, as first node");
+    }
+
+    const nodes: ZigbeeTopologyNode[] = types.map((type) => ({ type, parent: -1, depth: 0, children: [], neighbors: [] }));
+    /** coordinator & routers already in the tree */
+    const routers: number[] = [0];
+    const routerNeighborCount = (idx: number) => nodes[idx].neighbors.filter((n) => nodes[n.index].type !== "EndDevice").length;
+    const addNeighbors = (a: number, b: number, relationshipOfBForA: ZigbeeRelationship, relationshipOfAForB: ZigbeeRelationship) => {
+        const lqi = r.int(30, 255);
+
+        nodes[a].neighbors.push({ index: b, relationship: relationshipOfBForA, lqi });
+
+        if (nodes[b].type !== "EndDevice") {
+            nodes[b].neighbors.push({ index: a, relationship: relationshipOfAForB, lqi: Math.min(255, Math.max(0, lqi + r.int(-10, 10))) });
+        }
+    };
+    const join = (child: number, candidates: number[]) => {
+        if (candidates.length === 0) {
+            // over capacity: least loaded within max depth if any, else least loaded overall
+            const withinDepth = routers.filter((idx) => nodes[idx].depth < maxDepth);
+            const pool = withinDepth.length > 0 ? withinDepth : routers;
+            const minChildren = Math.min(...pool.map((idx) => nodes[idx].children.length));
+            candidates = pool.filter((idx) => nodes[idx].children.length === minChildren);
+        }
+
+        // favor coordinator 75% of the time on small networks, 50% on larger networks
+        const parent = candidates[0] === 0 && r.bool(types.length < 50 ? 0.75 : 0.5) ? 0 : r.pick(candidates);
+
+        nodes[child].parent = parent;
+        nodes[child].depth = nodes[parent].depth + 1;
+        nodes[parent].children.push(child);
+        addNeighbors(parent, child, ZigbeeRelationship.NeighborIsAChild, ZigbeeRelationship.NeighborIsParent);
+    };
+
+    for (let i = 1; i < nodes.length; i++) {
+        if (nodes[i].type === "Router") {
+            join(
+                i,
+                routers.filter(
+                    (idx) => nodes[idx].children.length < maxChildren && nodes[idx].depth < maxDepth && routerNeighborCount(idx) < maxRouterNeighbors,
+                ),
+            );
+            routers.push(i);
+        }
+    }
+
+    for (let i = 1; i < nodes.length; i++) {
+        if (nodes[i].type === "EndDevice") {
+            join(
+                i,
+                routers.filter((idx) => nodes[idx].children.length < maxChildren && nodes[idx].depth < maxDepth),
+            );
+        }
+    }
+
+    for (let i = 0; i < routers.length; i++) {
+        const a = routers[i];
+
+        for (let j = i + 1; j < routers.length; j++) {
+            const b = routers[j];
+
+            if (
+                nodes[a].parent === b ||
+                nodes[b].parent === a ||
+                Math.abs(nodes[a].depth - nodes[b].depth) > 1 ||
+                routerNeighborCount(a) >= maxRouterNeighbors ||
+                routerNeighborCount(b) >= maxRouterNeighbors
+            ) {
+                continue;
+            }
+
+            if (r.bool(meshDensity)) {
+                addNeighbors(a, b, ZigbeeRelationship.NeighborIsASibling, ZigbeeRelationship.NeighborIsASibling);
+            }
+        }
+    }
+
+    return { nodes };
+}
+
+/**
+ * Find the shortest path (hop count) between two nodes, following neighbor tables (end devices only through their parent).
+ * @param topo
+ * @param from Index of the source node
+ * @param to Index of the destination node
+ * @returns Indexes from source to destination (both included), empty if unreachable
+ */
+export function topologyPath(topo: ZigbeeTopology, from: number, to: number): number[] {
+    if (from === to) {
+        return [from];
+    }
+
+    const previous = new Map<number, number>([[from, -1]]);
+    const queue = [from];
+
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        const node = topo.nodes[current];
+        const next = node.type === "EndDevice" ? [node.parent] : node.neighbors.map((n) => n.index);
+
+        for (const idx of next) {
+            if (previous.has(idx)) {
+                continue;
+            }
+
+            previous.set(idx, current);
+
+            if (idx === to) {
+                const path = [to];
+
+                for (let p = current; p !== -1; p = previous.get(p)!) {
+                    path.unshift(p);
+                }
+
+                return path;
+            }
+
+            // end devices never relay
+            if (topo.nodes[idx].type !== "EndDevice") {
+                queue.push(idx);
+            }
+        }
+    }
+
+    return [];
+}
+
+export type ZigbeeTopologyRoute = {
+    /** Index of the destination in `ZigbeeTopology.nodes` */
+    destination: number;
+    /** Index of the next hop in `ZigbeeTopology.nodes` */
+    nextHop: number;
+    status: keyof typeof RoutingTableStatus;
+    /** Destination is a concentrator that issued a many-to-one route request */
+    manyToOne: boolean;
+    /** A route record should be sent to the destination prior to the next data packet */
+    routeRecordRequired: boolean;
+};
+
+export type ZigbeeRoutingTablesOptions = {
+    /** Coordinator acts as concentrator (many-to-one routes from all routers). Default: true */
+    concentrator?: boolean;
+    /** Share of routes with a status other than "ACTIVE". Default: 0.15 */
+    failureRate?: number;
+    /** Maximum routes (besides many-to-one) per routing table. Default: 10 */
+    maxRoutes?: number;
+};
+
+/**
+ * Build routing tables for all nodes of the given topology (always empty for end devices).
+ * Next hops follow the shortest path through neighbor tables, relays along that path hold the same route.
+ * When the coordinator is a concentrator, every router has a many-to-one route to it and the coordinator relies on source routes.
+ * @param r
+ * @param topo
+ * @param options
+ * @returns Routing table for each node, same order as `topo.nodes`
+ */
+export function routingTables(r: Rng, topo: ZigbeeTopology, options: ZigbeeRoutingTablesOptions = {}): ZigbeeTopologyRoute[][] {
+    const { concentrator = true, failureRate = 0.15, maxRoutes = 10 } = options;
+    const status = (): ZigbeeTopologyRoute["status"] =>
+        r.bool(failureRate) ? r.pick(["DISCOVERY_UNDERWAY", "DISCOVERY_FAILED", "INACTIVE", "VALIDATION_UNDERWAY"] as const) : "ACTIVE";
+    const tables: ZigbeeTopologyRoute[][] = topo.nodes.map(() => []);
+
+    for (let i = 0; i < topo.nodes.length; i++) {
+        const node = topo.nodes[i];
+        const table = tables[i];
+
+        if (node.type === "EndDevice") {
+            continue;
+        }
+
+        if (concentrator && i !== 0) {
+            const path = topologyPath(topo, i, 0);
+
+            if (path.length > 1) {
+                table.push({ destination: 0, nextHop: path[1], status: status(), manyToOne: true, routeRecordRequired: r.bool(0.1) });
+            }
+        }
+
+        // direct children never need a route, coordinator uses source routes when concentrator
+        const candidates: number[] = [];
+
+        for (let j = 0; j < topo.nodes.length; j++) {
+            if (j !== i && topo.nodes[j].parent !== i && (j !== 0 || !concentrator)) {
+                candidates.push(j);
+            }
+        }
+
+        const count = Math.min(candidates.length, r.int(0, i === 0 && concentrator ? Math.min(2, maxRoutes) : maxRoutes));
+
+        for (let k = 0; k < count; k++) {
+            const destination = candidates.splice(r.int(0, candidates.length - 1), 1)[0];
+            const path = topologyPath(topo, i, destination);
+
+            // route discovery also creates the route on every relay along the path
+            for (let p = 0; p < path.length - 1; p++) {
+                if (!tables[path[p]].some((route) => route.destination === destination)) {
+                    tables[path[p]].push({ destination, nextHop: path[p + 1], status: status(), manyToOne: false, routeRecordRequired: false });
+                }
+            }
+        }
+    }
+
+    return tables;
+}
+
+/**
+ * Build the source routes (route records) a concentrator coordinator holds for every other node of the given topology.
+ * @param topo
+ * @returns Relays (excluding coordinator and destination) for each node, same order as `topo.nodes` (coordinator has none)
+ */
+export function sourceRoutes(topo: ZigbeeTopology): number[][] {
+    return topo.nodes.map((_, i) => (i === 0 ? [] : topologyPath(topo, 0, i).slice(1, -1)));
+}
+
+// #endregion
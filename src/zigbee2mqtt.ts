@@ -1,5 +1,7 @@
 import assert from "node:assert";
 import { GP_ENDPOINT, HA_ENDPOINT } from "zigbee-herdsman/dist/zspec/consts.js";
+import { Clusters } from "zigbee-herdsman/dist/zspec/zcl/definition/cluster.js";
+import { DataType } from "zigbee-herdsman/dist/zspec/zcl/definition/enums.js";
 import type { ClusterName } from "zigbee-herdsman/dist/zspec/zcl/definition/tstype.js";
 import zhPackageJSON from "zigbee-herdsman/package.json" with { type: "json" };
 import { access, Numeric, prepareDefinition } from "zigbee-herdsman-converters";
@@ -20,8 +22,9 @@ import type {
 } from "zigbee2mqtt";
 import z2mSchemaJson from "zigbee2mqtt/dist/util/settings.schema.json" with { type: "json" };
 import z2mPackageJSON from "zigbee2mqtt/package.json" with { type: "json" };
-import { isoPastDate, sentence, word } from "./generics.js";
+import { type Clock, isoPastDate, sentence, toClock, UniqueValues, WORDS, word } from "./generics.js";
 import Rng from "./rng.js";
+import { isReportableAttribute } from "./zcl.js";
 import {
     clusterName,
     eui64,
@@ -30,8 +33,11 @@ import {
     extendedPanIdToArray,
     panId,
     relationship,
-    routingTableEntryStatus,
+    routingTables,
+    topology,
     ZigbeeRelationship,
+    type ZigbeeRoutingTablesOptions,
+    type ZigbeeTopologyOptions,
 } from "./zigbee.js";
 
 // ported from ZH for convenience with tree-shaking
@@ -42,7 +48,7 @@ export enum InterviewState {
     Failed = "FAILED",
 }
 
-type PubZigbee2MQTTSettings = Omit<Zigbee2MQTTSettings, "advanced"> & {
+export type PubZigbee2MQTTSettings = Omit<Zigbee2MQTTSettings, "advanced"> & {
     advanced: Omit<Zigbee2MQTTSettings["advanced"], "pan_id" | "ext_pan_id" | "network_key"> & {
         pan_id: number;
         ext_pan_id: number[];
@@ -52,7 +58,7 @@ type PubZigbee2MQTTSettings = Omit<Zigbee2MQTTSettings, "advanced"> & {
 
 type RelationshipType = Exclude<Zigbee2MQTTDevice["type"], "GreenPower">;
 
-type Zigbee2MQTTAPIFakerSnapshot = {
+export type Zigbee2MQTTAPIFakerSnapshot = {
     state: Zigbee2MQTTAPI["bridge/state"];
     info: Zigbee2MQTTAPI["bridge/info"];
     health: Zigbee2MQTTAPI["bridge/health"];
@@ -63,6 +69,13 @@ type Zigbee2MQTTAPIFakerSnapshot = {
     networkMap: Zigbee2MQTTAPI["bridge/response/networkmap"];
 };
 
+/** "bridge/info" coordinator type for each adapter in settings */
+export const COORDINATOR_TYPE_BY_ADAPTER: Record<string, string> = {
+    deconz: "ConBee3",
+    ember: "EmberZNet",
+    zstack: "ZStack3x0",
+};
+
 /**
  * List of all ZHC definitions, no specific order (import)
  */
@@ -79,6 +92,11 @@ export const zhcDefinitions: readonly Definition[] = (() => {
     return preparedDefinitions;
 })();
 
+/** Whether the definition is for a GreenPower device (from fingerprints) */
+export function isGreenPowerDefinition(definition: Definition): boolean {
+    return !!definition.fingerprint?.some((fp) => fp.modelID?.startsWith("GreenPower_"));
+}
+
 /**
  * List of all ZHC GreenPower definitions, no specific order (import)
  */
@@ -86,13 +104,8 @@ export const zhcGpDefinitions: readonly Definition[] = (() => {
     const gpDefinitions: Definition[] = [];
 
     for (const definition of zhcDefinitions) {
-        if (definition.fingerprint) {
-            for (const fp of definition.fingerprint) {
-                if (fp.modelID?.startsWith("GreenPower_")) {
-                    gpDefinitions.push(definition);
-                    break;
-                }
-            }
+        if (isGreenPowerDefinition(definition)) {
+            gpDefinitions.push(definition);
         }
     }
 
@@ -209,6 +222,161 @@ export function linkQuality(r: Rng) {
     return r.int(30, 255);
 }
 
+/**
+ * Pick a "permit joining" value of a neighbor table entry (0x00 no, 0x01 yes, 0x02 unknown)
+ * @param r
+ * @returns
+ */
+export function permitJoining(r: Rng): number {
+    return r.weightedPick([
+        [0x02, 0.25],
+        [0x01, 0.0375],
+        [0x00, 0.7125],
+    ]);
+}
+
+/**
+ * Realistic distribution of a well-known numeric.
+ * `skew` is the exponent applied to the uniform draw: > 1 favors `min`, < 1 favors `max`.
+ */
+export type NumericProfile = {
+    min: number;
+    max: number;
+    /** default: 0 */
+    decimals?: number;
+    /** default: 1 (uniform) */
+    skew?: number;
+};
+
+/** Realistic distributions of well-known numerics, by expose name */
+export const NUMERIC_PROFILES_BY_NAME: Record<string, NumericProfile> = {
+    temperature: { min: 15, max: 28, decimals: 2 },
+    local_temperature: { min: 15, max: 28, decimals: 2 },
+    device_temperature: { min: 20, max: 45 },
+    humidity: { min: 30, max: 70, decimals: 2 },
+    soil_moisture: { min: 10, max: 60 },
+    pressure: { min: 980, max: 1040, decimals: 1 },
+    co2: { min: 400, max: 1500, skew: 2 },
+    voc: { min: 0, max: 500, skew: 2 },
+    pm25: { min: 0, max: 50, skew: 2 },
+    pm10: { min: 0, max: 80, skew: 2 },
+    battery: { min: 0, max: 100, skew: 1 / 3 },
+    current: { min: 0, max: 10, decimals: 2, skew: 2 },
+    power: { min: 0, max: 2500, decimals: 1, skew: 3 },
+    energy: { min: 0, max: 5000, decimals: 2, skew: 2 },
+    // CIE 1931 chromaticity, within usual bulb gamut
+    x: { min: 0.15, max: 0.7, decimals: 4 },
+    y: { min: 0.05, max: 0.7, decimals: 4 },
+    hue: { min: 0, max: 360 },
+    saturation: { min: 0, max: 100 },
+};
+
+/** Realistic distributions of numerics, by expose unit (when name is not well-known) */
+export const NUMERIC_PROFILES_BY_UNIT: Record<string, NumericProfile> = {
+    "°C": { min: 15, max: 28, decimals: 2 },
+    hPa: { min: 980, max: 1040, decimals: 1 },
+    ppm: { min: 400, max: 1500, skew: 2 },
+    "µg/m³": { min: 0, max: 50, skew: 2 },
+    A: { min: 0, max: 10, decimals: 2, skew: 2 },
+    W: { min: 0, max: 2500, decimals: 1, skew: 3 },
+    kWh: { min: 0, max: 5000, decimals: 2, skew: 2 },
+    // mains
+    V: { min: 225, max: 240, decimals: 1 },
+    // batteries
+    mV: { min: 2500, max: 3200 },
+};
+
+/**
+ * Illuminance (lux) following a day/night cycle (UTC), peaking at noon
+ * @param r
+ * @param time msec since epoch
+ * @returns
+ */
+export function illuminance(r: Rng, time: number): number {
+    const date = new Date(time);
+    const hour = date.getUTCHours() + date.getUTCMinutes() / 60;
+    // > 0 between 6:00 and 18:00
+    const daylight = Math.sin(((hour - 6) / 12) * Math.PI);
+
+    return daylight > 0 ? Math.round(daylight * r.int(300, 2000)) + r.int(0, 20) : r.int(0, 10);
+}
+
+/**
+ * Range to draw values of a numeric expose from: its well-known profile restricted to its bounds, else its bounds.
+ * @param expose
+ * @returns
+ */
+export function numericProfile(expose: Numeric): NumericProfile {
+    const min = expose.value_min ?? 0;
+    // unbounded, most attributes are 8-bit
+    const max = expose.value_max ?? min + 255;
+    const profile = NUMERIC_PROFILES_BY_NAME[expose.name] ?? (expose.unit ? NUMERIC_PROFILES_BY_UNIT[expose.unit] : undefined);
+
+    if (profile) {
+        const low = Math.max(profile.min, min);
+        const high = Math.min(profile.max, max);
+
+        // e.g. temperature calibration in °C
+        if (low <= high) {
+            return { ...profile, min: low, max: high };
+        }
+    }
+
+    return { min, max };
+}
+
+/**
+ * Fit a value to the bounds & step of a numeric expose
+ * @param expose
+ * @param value
+ * @param decimals Used when expose has no step
+ * @returns
+ */
+export function fitNumeric(expose: Numeric, value: number, decimals = 0): number {
+    if (expose.value_step) {
+        const base = expose.value_min ?? 0;
+        const stepDecimals = expose.value_step.toString().split(".")[1]?.length ?? 0;
+        value = Number((base + Math.round((value - base) / expose.value_step) * expose.value_step).toFixed(stepDecimals));
+    } else {
+        value = Number(value.toFixed(decimals));
+    }
+
+    if (expose.value_min !== undefined && value < expose.value_min) {
+        return expose.value_min;
+    }
+
+    if (expose.value_max !== undefined && value > expose.value_max) {
+        return expose.value_max;
+    }
+
+    return value;
+}
+
+/**
+ * Pick a physically plausible value for a numeric expose, respecting its bounds, step & presets
+ * @param r
+ * @param expose
+ * @param time msec since epoch, used for time-dependent values (e.g. illuminance)
+ * @returns Value, or value of a preset (can be a string)
+ */
+export function numericValue(r: Rng, expose: Numeric, time: number = Date.now()): number | string {
+    if (expose.name === "linkquality") {
+        return linkQuality(r);
+    }
+
+    if (expose.presets && expose.presets.length > 0 && r.bool(0.1)) {
+        return r.pick(expose.presets).value;
+    }
+
+    if (expose.name === "illuminance" || expose.unit === "lx") {
+        return fitNumeric(expose, illuminance(r, time));
+    }
+
+    const profile = numericProfile(expose);
+
+    return fitNumeric(expose, profile.min + (profile.max - profile.min) * r.float() ** (profile.skew ?? 1), profile.decimals);
+}
+
 /**
  * Pick a possible OTA state
  * @param r
@@ -219,103 +387,184 @@ export function otaState(r: Rng, available = false) {
     return available ? r.pick(["updating", "available", "scheduled"] as const) : r.pick(["updating", "idle", "available", "scheduled"] as const);
 }
 
+/** Clusters bound when none specified, same as Zigbee2MQTT */
+export const DEFAULT_BIND_CLUSTERS: ClusterName[] = [
+    "genScenes",
+    "genOnOff",
+    "genLevelCtrl",
+    "lightingColorCtrl",
+    "closuresWindowCovering",
+    "hvacThermostat",
+    "msIlluminanceMeasurement",
+    "msTemperatureMeasurement",
+    "msRelativeHumidity",
+    "msSoilMoisture",
+    "msCO2",
+];
+
 /**
- * Generate {count} bindings
+ * Generate up to {count} bindings of an endpoint, targeting given devices (endpoints with the cluster in input) & groups.
+ * Only clusters bound by default (see `DEFAULT_BIND_CLUSTERS`) in output of the source are bound.
  * @param r
  * @param count
+ * @param source
+ * @param devices Possible target devices
+ * @param groups Possible target groups
  * @returns
  */
-export function bindings(r: Rng, count: number): Zigbee2MQTTDeviceEndpointBinding[] {
-    if (count <= 0) {
+export function bindings(
+    r: Rng,
+    count: number,
+    source: Zigbee2MQTTDeviceEndpoint,
+    devices: readonly Zigbee2MQTTDevice[] = [],
+    groups: readonly Zigbee2MQTTGroup[] = [],
+): Zigbee2MQTTDeviceEndpointBinding[] {
+    const clusters = source.clusters.output.filter((cluster) => DEFAULT_BIND_CLUSTERS.includes(cluster as ClusterName));
+
+    if (count <= 0 || clusters.length === 0) {
         return [];
     }
 
-    const items: Zigbee2MQTTDeviceEndpointBinding[] = [];
+    const candidates: Zigbee2MQTTDeviceEndpointBinding[] = [];
 
-    for (let i = 0; i < count; i++) {
-        if (r.bool(0.85)) {
-            items.push({
-                cluster: clusterName(r),
-                target: { type: "endpoint", ieee_address: eui64(r), endpoint: r.int(1, 4) },
-            });
-        } else {
-            items.push({
-                cluster: clusterName(r),
-                target: { type: "group", id: r.int(1, 32) },
-            });
+    for (const device of devices) {
+        for (const id in device.endpoints) {
+            const target = device.endpoints[id];
+
+            if (target === source) {
+                continue;
+            }
+
+            for (const cluster of clusters) {
+                if (target.clusters.input.includes(cluster)) {
+                    candidates.push({ cluster, target: { type: "endpoint", ieee_address: device.ieee_address, endpoint: Number(id) } });
+                }
+            }
+        }
+    }
+
+    for (const group of groups) {
+        for (const cluster of clusters) {
+            candidates.push({ cluster, target: { type: "group", id: group.id } });
+        }
+    }
+
+    return r.sample(candidates, Math.min(count, candidates.length));
+}
+
+/**
+ * Reportable attributes of a cluster, flagged in ZH definitions (excluding manufacturer-specific & client attributes)
+ * @param cluster
+ * @returns Name & type
+ */
+export function reportableAttributes(cluster: string): [string, DataType][] {
+    if (!(cluster in Clusters)) {
+        return [];
+    }
+
+    const attributes: [string, DataType][] = [];
+
+    for (const [name, attribute] of Object.entries(Clusters[cluster as ClusterName].attributes)) {
+        if (isReportableAttribute(attribute) && !attribute.client && attribute.manufacturerCode === undefined) {
+            attributes.push([name, attribute.type]);
         }
     }
 
-    return items;
+    return attributes;
+}
+
+/**
+ * Generate a configured reporting for an attribute:
+ * discrete values are reported on any change, analog values on a change relative to their size, and less often
+ * @param r
+ * @param cluster
+ * @param attribute
+ * @param type
+ * @returns
+ */
+export function attributeReporting(r: Rng, cluster: string, attribute: string, type: DataType): Zigbee2MQTTDeviceEndpointConfiguredReporting {
+    let reportableChange = 0;
+
+    if (type >= DataType.UINT8 && type <= DataType.INT64) {
+        const length = ((type - DataType.UINT8) % 8) + 1;
+
+        reportableChange = length === 1 ? r.int(1, 5) : r.pick(length === 2 ? [1, 5, 10, 50, 100] : [1, 10, 100, 1000]);
+    } else if (type >= DataType.SEMI_PREC && type <= DataType.DOUBLE_PREC) {
+        reportableChange = r.pick([0.1, 0.5, 1]);
+    }
+
+    return {
+        cluster,
+        attribute,
+        minimum_report_interval: reportableChange === 0 ? 0 : r.pick([1, 5, 10, 30, 60]),
+        maximum_report_interval: r.pick([300, 600, 900, 1800, 3600]),
+        reportable_change: reportableChange,
+    };
 }
 
 /**
- * Generate {count} reportings
+ * Generate up to {count} reportings of reportable attributes of given (input) clusters
  * @param r
  * @param count
+ * @param clusters
  * @returns
  */
-export function reporting(r: Rng, count: number): Zigbee2MQTTDeviceEndpointConfiguredReporting[] {
+export function reporting(r: Rng, count: number, clusters: readonly string[]): Zigbee2MQTTDeviceEndpointConfiguredReporting[] {
     if (count <= 0) {
         return [];
     }
 
-    const items: Zigbee2MQTTDeviceEndpointConfiguredReporting[] = [];
+    const candidates = clusters.flatMap((cluster) => reportableAttributes(cluster).map(([name, type]) => [cluster, name, type] as const));
 
-    for (let i = 0; i < count; i++) {
-        items.push({
-            cluster: clusterName(r),
-            attribute: r.bool() ? "onOff" : r.int(0, 65535),
-            minimum_report_interval: r.int(1, 30),
-            maximum_report_interval: r.int(60, 3600),
-            reportable_change: r.int(0, 10),
-        });
-    }
-
-    return items;
+    return r.sample(candidates, Math.min(count, candidates.length)).map(([cluster, name, type]) => attributeReporting(r, cluster, name, type));
 }
 
+/** Server (input) & client (output) clusters of an endpoint */
+export type EndpointClusters = { input: ClusterName[]; output: ClusterName[] };
+
 /**
- * Generate an endpoint
+ * Generate an endpoint, without bindings (see `bindings`)
  * @param r
  * @param id
  * @param name
- * @param maxBindingsCount
  * @param maxReportingCount
+ * @param clusters Default: random
  * @returns
  */
 export function endpoint(
     r: Rng,
     id: number,
     name = r.bool(0.4) ? `${word(r)}_${r.int(1, 9)}` : undefined,
-    maxBindingsCount = 3,
     maxReportingCount = 5,
+    clusters?: EndpointClusters,
 ): Zigbee2MQTTDeviceEndpoint {
-    const input = new Set<ClusterName>();
-    const output = new Set<ClusterName>();
+    const input = new Set<ClusterName>(clusters?.input);
+    const output = new Set<ClusterName>(clusters?.output);
     const scenes: Zigbee2MQTTScene[] = [];
     const addedScenes = new Set<number>();
 
-    if (id === GP_ENDPOINT) {
-        input.add("greenPower");
-        output.add("greenPower");
-    } else {
-        input.add("genBasic");
-    }
+    if (!clusters) {
+        if (id === GP_ENDPOINT) {
+            input.add("greenPower");
+            output.add("greenPower");
+        } else {
+            input.add("genBasic");
+        }
 
-    const inCount = r.int(1, 5);
+        const inCount = r.int(1, 5);
 
-    for (let i = 0; i < inCount; i++) {
-        input.add(clusterName(r));
-    }
+        for (let i = 0; i < inCount; i++) {
+            input.add(clusterName(r));
+        }
 
-    const outCount = r.int(0, 3);
+        const outCount = r.int(0, 3);
 
-    for (let i = 0; i < outCount; i++) {
-        output.add(clusterName(r));
+        for (let i = 0; i < outCount; i++) {
+            output.add(clusterName(r));
+        }
     }
 
-    const scenesCount = r.bool(0.75) ? 0 : r.int(0, 3);
+    const scenesCount = (clusters && !input.has("genScenes")) || r.bool(0.75) ? 0 : r.int(0, 3);
 
     for (let i = 0; i < scenesCount; i++) {
         let id = r.int(1, 255);
@@ -330,8 +579,8 @@ export function endpoint(
 
     const ep: Zigbee2MQTTDeviceEndpoint = {
         name,
-        bindings: bindings(r, r.int(0, maxBindingsCount)),
-        configured_reportings: reporting(r, r.int(0, maxReportingCount)),
+        bindings: [],
+        configured_reportings: reporting(r, r.int(0, maxReportingCount), Array.from(input)),
         clusters: { input: Array.from(input), output: Array.from(output) },
         scenes,
     };
@@ -343,16 +592,10 @@ export function endpoint(
  * Generate random endpoints with possible "always-defined".
  * @param r
  * @param ensurePresent If key starts with "rnd_" it will keep the ID, but randomize the name
- * @param maxBindingsCount
  * @param maxReportingCount
  * @returns
  */
-export function endpoints(
-    r: Rng,
-    ensurePresent?: Record<string, number>,
-    maxBindingsCount?: number,
-    maxReportingCount?: number,
-): Record<number, Zigbee2MQTTDeviceEndpoint> {
+export function endpoints(r: Rng, ensurePresent?: Record<string, number>, maxReportingCount?: number): Record<number, Zigbee2MQTTDeviceEndpoint> {
     const endpoints: Record<number, Zigbee2MQTTDeviceEndpoint> = {};
     let epMaxCount = 3;
 
@@ -363,7 +606,7 @@ export function endpoints(
             const id = ensurePresent[name];
 
             if (id !== undefined) {
-                endpoints[id] = endpoint(r, id, name.startsWith("rnd_") ? undefined : name, maxBindingsCount, maxReportingCount);
+                endpoints[id] = endpoint(r, id, name.startsWith("rnd_") ? undefined : name, maxReportingCount);
                 added = true;
             }
         }
@@ -382,7 +625,7 @@ export function endpoints(
             ep = r.int(0x01, 0xfe);
         }
 
-        endpoints[ep] = endpoint(r, ep, undefined, maxBindingsCount, maxReportingCount);
+        endpoints[ep] = endpoint(r, ep, undefined, maxReportingCount);
     }
 
     return endpoints;
@@ -438,8 +681,256 @@ export function findDefinitionByModel(definitionModel: string): Definition | und
     );
 }
 
-/** Try to find endpoint IDs from definitions */
-function definitionEndpoints(r: Rng, definition: Definition): Record<string, number> | undefined {
+/** Criteria to select definitions, all given criteria must match */
+export type DefinitionQuery = {
+    /** Definition vendor (case-insensitive) */
+    vendor?: string;
+    /** Expose types or names (e.g. `light`, `climate`, `occupancy`), at any depth, all required */
+    exposes?: string[];
+    /** Expose categories (`config`, `diagnostic`), all required */
+    categories?: string[];
+    /** Supports OTA */
+    ota?: boolean;
+    /** Has options */
+    options?: boolean;
+    /** Count of endpoints defined by the definition (1 if none), exact or [min, max] */
+    endpoints?: number | [number, number];
+    /** Has whitelabels */
+    whitelabel?: boolean;
+};
+
+type DefinitionIndex = {
+    byVendor: Map<string, Set<Definition>>;
+    /** by expose type & expose name */
+    byExpose: Map<string, Set<Definition>>;
+    byCategory: Map<string, Set<Definition>>;
+    endpointCounts: Map<Definition, number>;
+};
+
+let definitionIndex: DefinitionIndex | undefined;
+
+function addToIndex(map: Map<string, Set<Definition>>, key: string, definition: Definition): void {
+    const set = map.get(key);
+
+    if (set) {
+        set.add(definition);
+    } else {
+        map.set(key, new Set([definition]));
+    }
+}
+
+/** Lazily built index of `zhcDefinitions` */
+function getDefinitionIndex(): DefinitionIndex {
+    if (!definitionIndex) {
+        definitionIndex = { byVendor: new Map(), byExpose: new Map(), byCategory: new Map(), endpointCounts: new Map() };
+
+        for (const definition of zhcDefinitions) {
+            addToIndex(definitionIndex.byVendor, definition.vendor.toLowerCase(), definition);
+
+            iterateExposes(deviceExposes(definition) as Expose[], (expose) => {
+                addToIndex(definitionIndex!.byExpose, expose.type, definition);
+                addToIndex(definitionIndex!.byExpose, expose.name, definition);
+
+                if (expose.category) {
+                    addToIndex(definitionIndex!.byCategory, expose.category, definition);
+                }
+            });
+        }
+    }
+
+    return definitionIndex;
+}
+
+/** Count of endpoints defined by a definition (1 if none), cached */
+function definitionEndpointCount(index: DefinitionIndex, definition: Definition): number {
+    let count = index.endpointCounts.get(definition);
+
+    if (count === undefined) {
+        count = 1;
+
+        try {
+            count = Math.max(1, Object.keys(definitionEndpoints(definition) ?? {}).length);
+        } catch {
+            // definitions requiring an actual device
+        }
+
+        index.endpointCounts.set(definition, count);
+    }
+
+    return count;
+}
+
+/**
+ * Select the definitions matching all given criteria (indexed)
+ * @param query
+ * @param pool Definitions to select from. Default: `zhcDefinitions`
+ * @returns In pool order
+ */
+export function queryDefinitions(query: DefinitionQuery, pool: readonly Definition[] = zhcDefinitions): Definition[] {
+    const index = getDefinitionIndex();
+    const sets: Set<Definition>[] = [];
+
+    if (query.vendor !== undefined) {
+        sets.push(index.byVendor.get(query.vendor.toLowerCase()) ?? new Set());
+    }
+
+    for (const expose of query.exposes ?? []) {
+        sets.push(index.byExpose.get(expose) ?? new Set());
+    }
+
+    for (const category of query.categories ?? []) {
+        sets.push(index.byCategory.get(category) ?? new Set());
+    }
+
+    const [min, max] = typeof query.endpoints === "number" ? [query.endpoints, query.endpoints] : (query.endpoints ?? []);
+
+    return pool.filter(
+        (definition) =>
+            sets.every((set) => set.has(definition)) &&
+            (query.ota === undefined || !!definition.ota === query.ota) &&
+            (query.options === undefined || (definition.options?.length ?? 0) > 0 === query.options) &&
+            (query.whitelabel === undefined || (definition.whiteLabel?.length ?? 0) > 0 === query.whitelabel) &&
+            (min === undefined || definitionEndpointCount(index, definition) >= min) &&
+            (max === undefined || definitionEndpointCount(index, definition) <= max),
+    );
+}
+
+/** Expose names only found on battery-powered devices */
+const BATTERY_EXPOSES = new Set(["battery", "battery_low", "battery_voltage", "battery_state"]);
+
+/** Expose types & names only found on mains-powered devices */
+const MAINS_EXPOSES = new Set(["light", "cover", "power", "current", "energy", "produced_energy"]);
+
+/** What a definition tells about the power of a device, "ambiguous" when it could be either mains or battery-powered */
+export type DefinitionPowerKind = "GreenPower" | "battery" | "mains" | "ambiguous";
+
+const definitionPowerKinds = new Map<Definition, DefinitionPowerKind>();
+
+/**
+ * Classify a definition by power: GreenPower fingerprints, battery exposes or `meta.battery`, mains-only exposes (lights, covers, metering). Cached.
+ * @param definition
+ * @returns
+ */
+export function definitionPowerKind(definition: Definition): DefinitionPowerKind {
+    let kind = definitionPowerKinds.get(definition);
+
+    if (kind === undefined) {
+        if (isGreenPowerDefinition(definition)) {
+            kind = "GreenPower";
+        } else {
+            let battery = !!definition.meta?.battery;
+            let mainsOnly = false;
+
+            iterateExposes(deviceExposes(definition) as Expose[], (expose) => {
+                if (BATTERY_EXPOSES.has(expose.name)) {
+                    battery = true;
+                } else if (MAINS_EXPOSES.has(expose.type) || MAINS_EXPOSES.has(expose.name)) {
+                    mainsOnly = true;
+                }
+            });
+
+            kind = battery ? "battery" : mainsOnly ? "mains" : "ambiguous";
+        }
+
+        definitionPowerKinds.set(definition, kind);
+    }
+
+    return kind;
+}
+
+/**
+ * Whether a device of given type can use a definition without contradicting `definitionPower`
+ * (a router is mains-powered, an end device battery-powered, "Unknown" can be anything but GreenPower)
+ * @param definition
+ * @param type
+ * @returns
+ */
+export function definitionSupportsType(definition: Definition, type: DeviceType): boolean {
+    const kind = definitionPowerKind(definition);
+
+    switch (type) {
+        case "GreenPower": {
+            return kind === "GreenPower";
+        }
+        case "Router": {
+            return kind === "mains" || kind === "ambiguous";
+        }
+        case "EndDevice": {
+            return kind === "battery" || kind === "ambiguous";
+        }
+        case "Unknown": {
+            return kind !== "GreenPower";
+        }
+    }
+}
+
+const definitionsByTypes = new WeakMap<readonly Definition[], Map<DeviceType, Definition[]>>();
+
+/** Definitions of given pool supporting given type (see `definitionSupportsType`), cached per pool */
+function definitionsByType(pool: readonly Definition[], type: DeviceType): Definition[] {
+    let byType = definitionsByTypes.get(pool);
+
+    if (!byType) {
+        byType = new Map();
+
+        definitionsByTypes.set(pool, byType);
+    }
+
+    let definitions = byType.get(type);
+
+    if (!definitions) {
+        definitions = pool.filter((definition) => definitionSupportsType(definition, type));
+
+        byType.set(type, definitions);
+    }
+
+    return definitions;
+}
+
+/**
+ * Infer device type & power source from a definition (see `definitionPowerKind`).
+ * Random only when the definition is ambiguous.
+ * @param r
+ * @param definition
+ * @param mains Probability [0-1] of an ambiguous device being mains-powered
+ * @param mainsPowerSource Power source of mains-powered devices. Default: mostly "Mains (single phase)"
+ * @returns
+ */
+export function definitionPower(
+    r: Rng,
+    definition: Definition,
+    mains = 0.5,
+    mainsPowerSource?: Zigbee2MQTTDevice["power_source"],
+): { type: DeviceType; powerSource: Zigbee2MQTTDevice["power_source"] } {
+    const kind = definitionPowerKind(definition);
+
+    if (kind === "GreenPower") {
+        return { type: "GreenPower", powerSource: "Unknown" };
+    }
+
+    if (kind === "battery" || (kind === "ambiguous" && !r.bool(mains))) {
+        return { type: "EndDevice", powerSource: "Battery" };
+    }
+
+    return {
+        type: "Router",
+        powerSource:
+            mainsPowerSource ??
+            r.weightedPick([
+                ["Mains (single phase)", 0.95],
+                ["Mains (3 phase)", 0.02],
+                ["DC Source", 0.03],
+            ] as const),
+    };
+}
+
+/**
+ * Try to find endpoint IDs from definitions
+ * @param definition
+ * @param r If given, endpoints looked up by the definition randomly exist on the dummy device, else they all do
+ * @returns
+ */
+function definitionEndpoints(definition: Definition, r?: Rng): Record<string, number> | undefined {
     if (!definition.endpoint) {
         return undefined;
     }
@@ -453,13 +944,188 @@ function definitionEndpoints(r: Rng, definition: Definition): Record<string, num
     const zhDevice = {
         isDummyDevice: true,
         endpoints: [{ ID: HA_ENDPOINT, inputClusters: [6] }],
-        getEndpoint: (id: number) => (r.bool(0.5) ? { ID: id } : undefined),
+        getEndpoint: (id: number) => (!r || r.bool(0.5) ? { ID: id } : undefined),
     };
 
     // biome-ignore lint/suspicious/noExplicitAny: dummy device
     return definition.endpoint(zhDevice as any);
 }
 
+/** Server clusters implied by generic expose types */
+const CLUSTERS_BY_EXPOSE_TYPE: Record<string, ClusterName> = {
+    light: "genOnOff",
+    switch: "genOnOff",
+    fan: "hvacFanCtrl",
+    cover: "closuresWindowCovering",
+    lock: "closuresDoorLock",
+    climate: "hvacThermostat",
+};
+
+/** Server clusters implied by expose names (including features) */
+const CLUSTERS_BY_EXPOSE_NAME: Record<string, ClusterName> = {
+    brightness: "genLevelCtrl",
+    color_temp: "lightingColorCtrl",
+    color_xy: "lightingColorCtrl",
+    color_hs: "lightingColorCtrl",
+    temperature: "msTemperatureMeasurement",
+    humidity: "msRelativeHumidity",
+    pressure: "msPressureMeasurement",
+    illuminance: "msIlluminanceMeasurement",
+    occupancy: "msOccupancySensing",
+    co2: "msCO2",
+    pm25: "pm25Measurement",
+    soil_moisture: "msSoilMoisture",
+    device_temperature: "genDeviceTempCfg",
+    battery: "genPowerCfg",
+    battery_low: "genPowerCfg",
+    battery_voltage: "genPowerCfg",
+    power: "haElectricalMeasurement",
+    current: "haElectricalMeasurement",
+    energy: "seMetering",
+    produced_energy: "seMetering",
+    contact: "ssIasZone",
+    water_leak: "ssIasZone",
+    smoke: "ssIasZone",
+    carbon_monoxide: "ssIasZone",
+    gas: "ssIasZone",
+    tamper: "ssIasZone",
+};
+
+/** Expose types of actuators that can be controlled through groups & scenes */
+const ACTUATOR_EXPOSES = new Set(["light", "switch", "cover"]);
+
+/**
+ * Add the clusters of the ZCL converters of a definition:
+ * attributes & commands sent by servers imply a server (input) cluster, commands sent by clients a client (output) cluster.
+ * Custom clusters unknown to ZH are ignored.
+ */
+function addConverterClusters(definition: Definition, input: Set<ClusterName>, output: Set<ClusterName>): void {
+    for (const converter of definition.fromZigbee ?? []) {
+        if (typeof converter.cluster !== "string" || !(converter.cluster in Clusters)) {
+            continue;
+        }
+
+        const name = converter.cluster as ClusterName;
+        const cluster = Clusters[name];
+
+        for (const type of [converter.type].flat()) {
+            if (type === "attributeReport" || type === "readResponse") {
+                input.add(name);
+            } else if (type.startsWith("command")) {
+                const command = `${type.charAt(7).toLowerCase()}${type.slice(8)}`;
+
+                if (command in cluster.commands) {
+                    output.add(name);
+                } else if (command in cluster.commandsResponse) {
+                    input.add(name);
+                }
+            }
+        }
+    }
+}
+
+/** Sort clusters by ID, as listed in descriptors */
+function sortClusters(clusters: Set<ClusterName>): ClusterName[] {
+    return Array.from(clusters).sort((a, b) => Clusters[a].ID - Clusters[b].ID);
+}
+
+/**
+ * Derive the endpoints of a definition with the clusters its exposes & converters imply:
+ * - exposes add to the endpoint they are bound to (main endpoint if none), converters to the main endpoint
+ * - main endpoint also has `genBasic` & `genIdentify` servers, and `genOta` client if OTA-capable
+ * - endpoints with actuators (lights, switches, covers) also have `genGroups` & `genScenes` servers
+ * @param r
+ * @param definition
+ * @returns By endpoint ID, first is main
+ */
+export function definitionClusters(r: Rng, definition: Definition): Map<number, { name?: string; clusters: EndpointClusters }> {
+    const named = definitionEndpoints(definition, r) ?? {};
+    const ids = new Map<string, number>();
+    const layout = new Map<number, { name?: string; input: Set<ClusterName>; output: Set<ClusterName>; actuator: boolean }>();
+
+    for (const name in named) {
+        const id = named[name];
+
+        if (id !== undefined) {
+            ids.set(name, id);
+
+            if (!layout.has(id)) {
+                layout.set(id, { name, input: new Set(), output: new Set(), actuator: false });
+            }
+        }
+    }
+
+    if (layout.size === 0) {
+        layout.set(HA_ENDPOINT, { input: new Set(), output: new Set(), actuator: false });
+    }
+
+    const [mainId, main] = layout.entries().next().value!;
+
+    main.input.add("genBasic");
+    main.input.add("genIdentify");
+
+    if (definition.ota) {
+        main.output.add("genOta");
+    }
+
+    addConverterClusters(definition, main.input, main.output);
+
+    for (const rootExpose of deviceExposes(definition) as Expose[]) {
+        const ep = layout.get((rootExpose.endpoint !== undefined && ids.get(rootExpose.endpoint)) || mainId)!;
+
+        if (ACTUATOR_EXPOSES.has(rootExpose.type)) {
+            ep.actuator = true;
+        }
+
+        iterateExposes([rootExpose], (expose) => {
+            const cluster = CLUSTERS_BY_EXPOSE_TYPE[expose.type] ?? CLUSTERS_BY_EXPOSE_NAME[expose.name];
+
+            if (cluster) {
+                ep.input.add(cluster);
+            }
+        });
+    }
+
+    const result = new Map<number, { name?: string; clusters: EndpointClusters }>();
+
+    for (const [id, { name, input, output, actuator }] of layout) {
+        if (actuator) {
+            input.add("genGroups");
+            input.add("genScenes");
+        }
+
+        result.set(id, { name, clusters: { input: sortClusters(input), output: sortClusters(output) } });
+    }
+
+    return result;
+}
+
+/**
+ * Generate the endpoints of a device from its definition (see `definitionClusters`).
+ * Routers may also have a Green Power proxy endpoint, Green Power devices only have the Green Power endpoint.
+ * @param r
+ * @param definition
+ * @param type
+ * @returns
+ */
+export function definitionDeviceEndpoints(r: Rng, definition: Definition, type: DeviceType): Record<number, Zigbee2MQTTDeviceEndpoint> {
+    if (type === "GreenPower") {
+        return { [GP_ENDPOINT]: endpoint(r, GP_ENDPOINT, undefined, 0, { input: ["greenPower"], output: ["greenPower"] }) };
+    }
+
+    const endpoints: Record<number, Zigbee2MQTTDeviceEndpoint> = {};
+
+    for (const [id, { name, clusters }] of definitionClusters(r, definition)) {
+        endpoints[id] = endpoint(r, id, name, undefined, clusters);
+    }
+
+    if (type === "Router" && endpoints[GP_ENDPOINT] === undefined && r.bool(0.5)) {
+        endpoints[GP_ENDPOINT] = endpoint(r, GP_ENDPOINT, undefined, 0, { input: [], output: ["greenPower"] });
+    }
+
+    return endpoints;
+}
+
 /**
  * Recursively execute the given function on given exposes.
  * @param exposes
@@ -478,6 +1144,29 @@ export function iterateExposes(exposes: Expose[], fn: (expose: Expose) => void,
     }
 }
 
+/**
+ * Find the expose of given state property.
+ * Only recurses in features of exposes without property (e.g. `light`), features of others (e.g. `composite`) are nested in state.
+ * @param exposes
+ * @param property
+ * @returns
+ */
+export function findExposeByProperty(exposes: Expose[], property: string): Expose | undefined {
+    for (const expose of exposes) {
+        if (expose.property === property) {
+            return expose;
+        }
+
+        if (!expose.property && expose.features) {
+            const found = findExposeByProperty(expose.features, property);
+
+            if (found) {
+                return found;
+            }
+        }
+    }
+}
+
 /**
  * Recursively execute the given function on given options.
  * @param options
@@ -500,18 +1189,15 @@ export function iterateOptions(options: Option[], fn: (option: Option) => void,
  * Pick a value according to given expose
  * @param r
  * @param expose
+ * @param time msec since epoch, used for time-dependent values (e.g. illuminance)
  */
-function exposeValue(r: Rng, expose: Expose): unknown {
+export function exposeValue(r: Rng, expose: Expose, time: number = Date.now()): unknown {
     switch (expose.type) {
         case "binary": {
             return r.pick([expose.value_on, expose.value_off]);
         }
         case "numeric": {
-            if (expose.name === "linkquality") {
-                return linkQuality(r);
-            }
-
-            return r.int(expose.value_min ?? 0, (expose.value_max ?? r.bool(0.75)) ? 255 : 1_000);
+            return numericValue(r, expose, time);
         }
         case "text": {
             return sentence(r);
@@ -526,36 +1212,180 @@ function exposeValue(r: Rng, expose: Expose): unknown {
                 return Array.from({ length }, () => `#${r.hex(6)}`);
             }
 
-            return Array.from({ length }, () => exposeValue(r, expose.item_type));
-        }
-        case "climate": {
-            return undefined;
-        }
-        case "cover": {
-            return undefined;
-        }
-        case "fan": {
-            return undefined;
-        }
-        case "lock": {
-            return undefined;
-        }
-        case "switch": {
-            return undefined;
-        }
-        case "light": {
-            return undefined;
+            return Array.from({ length }, () => exposeValue(r, expose.item_type, time));
         }
+        case "climate":
+        case "cover":
+        case "fan":
+        case "lock":
+        case "switch":
+        case "light":
         case "composite": {
-            return undefined;
+            return exposesValue(r, expose.features, time);
         }
     }
 
     return undefined;
 }
 
+/**
+ * Pick values for given exposes, keyed by property, as published in state.
+ * Exposes without property (e.g. `light`) have their features flattened, others with features (e.g. `composite`) are nested.
+ * @param r
+ * @param exposes
+ * @param time msec since epoch, used for time-dependent values (e.g. illuminance)
+ * @returns
+ */
+export function exposesValue(r: Rng, exposes: Expose[], time: number = Date.now()): Record<string, unknown> {
+    const value: Record<string, unknown> = {};
+
+    for (const expose of exposes) {
+        if (expose.property) {
+            const current = value[expose.property];
+            const next = exposeValue(r, expose, time);
+
+            // e.g. `color_xy` & `color_hs` both under `color`
+            value[expose.property] =
+                current !== null && typeof current === "object" && next !== null && typeof next === "object" ? { ...current, ...next } : next;
+        } else if (expose.features) {
+            Object.assign(value, exposesValue(r, expose.features, time));
+        }
+    }
+
+    return value;
+}
+
+// #endregion
+
+export type DeviceType = Exclude<Zigbee2MQTTDevice["type"], "Coordinator">;
+
+/** Criteria for `device()` */
+export type DeviceQuery = DefinitionQuery & {
+    /** Restricts definitions to those supporting it (see `definitionSupportsType`). Default: inferred from definition */
+    type?: DeviceType;
+    /** Specific model (ZHC definition.model), other criteria are ignored */
+    model?: string;
+    /** Default: inferred from definition */
+    powerSource?: Zigbee2MQTTDevice["power_source"];
+    /** Probability [0-1] of being mains-powered, when the definition does not tell. Default: 0.5 */
+    mains?: number;
+    /** Power source of mains-powered devices. Default: mostly "Mains (single phase)" */
+    mainsPowerSource?: Zigbee2MQTTDevice["power_source"];
+};
+
+// #region Fleet profiles
+
+/** Kind of device found in an installation */
+export type FleetKind = {
+    /** Expose types or names selecting definitions of this kind */
+    exposes: string[];
+    /** Probability [0-1] of a device of this kind being mains-powered (Router), else battery-powered (EndDevice), when the definition does not tell */
+    mains: number;
+    /** Power source of mains-powered devices. Default: "Mains (single phase)" */
+    mainsPowerSource?: Zigbee2MQTTDevice["power_source"];
+};
+
+export const FLEET_KINDS = {
+    light: { exposes: ["light"], mains: 1 },
+    plug: { exposes: ["switch", "power"], mains: 1 },
+    switch: { exposes: ["switch"], mains: 0.9 },
+    remote: { exposes: ["action"], mains: 0 },
+    temperature: { exposes: ["temperature", "humidity"], mains: 0.05 },
+    occupancy: { exposes: ["occupancy"], mains: 0.15 },
+    contact: { exposes: ["contact"], mains: 0 },
+    water_leak: { exposes: ["water_leak"], mains: 0 },
+    smoke: { exposes: ["smoke"], mains: 0.2 },
+    climate: { exposes: ["climate"], mains: 0.3 },
+    cover: { exposes: ["cover"], mains: 1 },
+    lock: { exposes: ["lock"], mains: 0 },
+    meter: { exposes: ["energy", "voltage"], mains: 1, mainsPowerSource: "Mains (3 phase)" },
+} satisfies Record<string, FleetKind>;
+
+export type FleetKindName = keyof typeof FLEET_KINDS;
+
+/** Population of an installation */
+export type FleetProfile = {
+    /** Weights by kind */
+    kinds: Partial<Record<FleetKindName, number>>;
+    /** Weights by vendor (ZHC definition vendor), `*` for any vendor. Vendors without definitions of the picked kind are skipped */
+    vendors: Record<string, number>;
+};
+
+export const FLEET_PROFILES = {
+    apartment: {
+        kinds: { light: 45, plug: 12, remote: 10, temperature: 10, contact: 8, occupancy: 7, water_leak: 4, climate: 2, switch: 2 },
+        vendors: { IKEA: 35, Philips: 25, Aqara: 20, SONOFF: 10, "*": 10 },
+    },
+    "smart home enthusiast": {
+        kinds: {
+            light: 30,
+            plug: 10,
+            switch: 6,
+            remote: 8,
+            temperature: 10,
+            occupancy: 8,
+            contact: 8,
+            water_leak: 4,
+            smoke: 3,
+            climate: 6,
+            cover: 4,
+            lock: 1,
+            meter: 2,
+        },
+        vendors: { Philips: 20, Aqara: 20, IKEA: 15, Tuya: 15, SONOFF: 10, Innr: 5, "*": 15 },
+    },
+    "commercial building": {
+        kinds: { light: 40, occupancy: 20, smoke: 10, meter: 10, climate: 10, switch: 5, contact: 5 },
+        vendors: { Philips: 20, "Schneider Electric": 15, Legrand: 15, ubisys: 10, LEDVANCE: 10, "*": 30 },
+    },
+} satisfies Record<string, FleetProfile>;
+
+export type FleetProfileName = keyof typeof FLEET_PROFILES;
+
+/** Count of definitions by vendor & kind, cached */
+const fleetCandidates = new Map<string, number>();
+
+function fleetCandidateCount(vendor: string | undefined, kind: FleetKind): number {
+    const key = `${vendor ?? "*"}|${kind.exposes.join(",")}`;
+    let count = fleetCandidates.get(key);
+
+    if (count === undefined) {
+        count = queryDefinitions({ vendor, exposes: kind.exposes }).length;
+
+        fleetCandidates.set(key, count);
+    }
+
+    return count;
+}
+
+/**
+ * Pick the criteria of a device according to a fleet profile: kind, then vendor, with power tied to the kind when the definition does not tell
+ * @param r
+ * @param profile
+ * @returns
+ */
+export function fleetDeviceQuery(r: Rng, profile: FleetProfile): DeviceQuery {
+    const kind: FleetKind = FLEET_KINDS[r.weightedPick(Object.entries(profile.kinds) as [FleetKindName, number][])];
+    const vendors = Object.entries(profile.vendors).filter(([vendor]) => fleetCandidateCount(vendor === "*" ? undefined : vendor, kind) > 0);
+    const vendor = vendors.length > 0 ? r.weightedPick(vendors) : "*";
+
+    return {
+        vendor: vendor === "*" ? undefined : vendor,
+        exposes: kind.exposes,
+        mains: kind.mains,
+        mainsPowerSource: kind.mainsPowerSource ?? "Mains (single phase)",
+    };
+}
+
 // #endregion
 
+export type Zigbee2MQTTAPIFakerOptions = {
+    /** Reference time (msec since epoch) or clock, used for all generated timestamps. Default: `Date.now` */
+    clock?: number | Clock;
+    /** Population used by `devices()` (and snapshots). Default: uniform draw over all definitions */
+    profile?: FleetProfileName | FleetProfile;
+};
+
 /**
  * Zigbee2MQTTAPI faker class
  *
@@ -564,21 +1394,66 @@ function exposeValue(r: Rng, expose: Expose): unknown {
  */
 export class Zigbee2MQTTAPIFaker {
     private readonly r: Rng;
+    /** Streams forked per key (see `stream()`) */
+    private readonly streams = new Map<string, Rng>();
+
+    /** Identifiers already allocated by this faker, guaranteed unique (the faker represents one network) */
+    readonly allocated = {
+        ieeeAddresses: new UniqueValues<string>("IEEE addresses", 2 ** 64),
+        networkAddresses: new UniqueValues<number>("network addresses", 0xfff7),
+        groupIds: new UniqueValues<number>("group IDs", 0xfffe),
+        /** shared by devices and groups */
+        friendlyNames: new UniqueValues<string>("friendly names", WORDS.length * WORDS.length * 9000 * 2),
+    };
 
-    constructor(seed = 1) {
+    /** Source of "now" for generated timestamps */
+    readonly clock: Clock;
+    /** Population used by `devices()` */
+    readonly profile: FleetProfile | undefined;
+
+    /**
+     * @param seed
+     * @param options
+     */
+    constructor(seed = 1, options: Zigbee2MQTTAPIFakerOptions = {}) {
         this.r = new Rng(seed);
+        this.clock = toClock(options.clock);
+        this.profile = typeof options.profile === "string" ? FLEET_PROFILES[options.profile] : options.profile;
+
+        if (options.profile !== undefined && !this.profile) {
+            throw new Error(`Unknown fleet profile '${options.profile}'`);
+        }
     }
 
     // #region Basics
 
+    /**
+     * Independent stream for given key, forked from the seed (see `Rng.fork`) and continuing across calls.
+     * Entities drawing from their own stream (keyed by a stable identifier) are not shifted by generation of other entities.
+     * @param key e.g. `device/${ieeeAddress}`
+     * @returns
+     */
+    private stream(key: string): Rng {
+        let r = this.streams.get(key);
+
+        if (!r) {
+            r = this.r.fork(key);
+
+            this.streams.set(key, r);
+        }
+
+        return r;
+    }
+
     /**
      * Friendly name using repeated `word()`, structured to reduce collisions
+     * @param r default: faker stream
      * @returns
      */
-    friendlyName(): string {
-        const sep = this.r.bool() ? "_" : " ";
+    friendlyName(r: Rng = this.r): string {
+        const sep = r.bool() ? "_" : " ";
 
-        return `${word(this.r)}${sep}${this.r.int(1000, 9999)}${sep}${word(this.r)}`;
+        return `${word(r)}${sep}${r.int(1000, 9999)}${sep}${word(r)}`;
     }
 
     /**
@@ -586,8 +1461,12 @@ export class Zigbee2MQTTAPIFaker {
      * @returns
      */
     coordinator(): Zigbee2MQTTDevice {
+        this.allocated.friendlyNames.add("Coordinator");
+
+        const ieeeAddress = this.allocated.ieeeAddresses.draw(() => eui64(this.r));
+
         return {
-            ieee_address: eui64(this.r),
+            ieee_address: ieeeAddress,
             type: "Coordinator",
             network_address: 0x0000,
             supported: true,
@@ -603,45 +1482,84 @@ export class Zigbee2MQTTAPIFaker {
             interview_completed: true,
             interview_state: InterviewState.Successful,
             manufacturer: undefined,
-            endpoints: endpoints(this.r, { rnd_1: HA_ENDPOINT, rnd_2: GP_ENDPOINT }, 0, 0),
+            endpoints: endpoints(this.stream(`device/${ieeeAddress}`), { rnd_1: HA_ENDPOINT, rnd_2: GP_ENDPOINT }, 0),
         };
     }
 
     /**
-     * Generate a device (excluding "Coordinator")
-     * @param type Optional specific device type
-     * @param model Optional specific model (ZHC definition.model)
+     * Generate a device (excluding "Coordinator").
+     * IEEE address, network address and friendly name are unique within this faker.
+     * Only the IEEE address is drawn from the faker stream, anything else from a stream keyed by it (see `stream()`).
+     * @param typeOrQuery Optional specific device type, or criteria selecting the definition (e.g. `{ vendor: "IKEA", exposes: ["light"] }`)
+     * @param model Optional specific model (ZHC definition.model), takes precedence over criteria
      */
-    device(type?: Exclude<Zigbee2MQTTDevice["type"], "Coordinator">, model?: string): Zigbee2MQTTDevice {
-        const typeOrR = type ?? deviceType(this.r);
-        const def = model ? findDefinitionByModel(model) : this.r.pick(typeOrR === "GreenPower" ? zhcGpDefinitions : zhcDefinitions);
-        const interviewState = this.r.bool(0.9) ? InterviewState.Successful : this.r.pick(Object.values(InterviewState));
+    device(typeOrQuery?: DeviceType | DeviceQuery, model?: string): Zigbee2MQTTDevice {
+        const ieeeAddress = this.allocated.ieeeAddresses.draw(() => eui64(this.r));
+        // anything else from the device's own stream
+        const r = this.stream(`device/${ieeeAddress}`);
+        const query = typeof typeOrQuery === "object" ? typeOrQuery : undefined;
+        const type = typeof typeOrQuery === "object" ? typeOrQuery.type : typeOrQuery;
+        const defModel = model ?? query?.model;
+        // only restrict criteria to GreenPower definitions when explicitly requested, GreenPower devices are otherwise rare
+        const pool = type === "GreenPower" || (type === undefined && !query && r.bool(0.05)) ? zhcGpDefinitions : zhcDefinitions;
+        let def: Definition | undefined;
+
+        if (defModel) {
+            def = findDefinitionByModel(defModel);
+
+            if (def && type !== undefined && !definitionSupportsType(def, type)) {
+                throw new Error(`Definition '${defModel}' (${definitionPowerKind(def)}) does not support device type ${type}`);
+            }
+        } else if (query) {
+            const matching = queryDefinitions(query, pool).filter((d) => type === undefined || definitionSupportsType(d, type));
+
+            if (matching.length === 0) {
+                throw new Error(`No definition matches ${JSON.stringify(query)}`);
+            }
+
+            def = r.pick(matching);
+        } else {
+            def = r.pick(type === undefined ? pool : definitionsByType(pool, type));
+        }
+
+        const interviewState = r.weightedPick([
+            [InterviewState.Successful, 0.925],
+            [InterviewState.Pending, 0.025],
+            [InterviewState.InProgress, 0.025],
+            [InterviewState.Failed, 0.025],
+        ]);
 
         assert(def, "No definition found");
 
+        // an explicit type settles ambiguous definitions
+        const mains = type === "Router" ? 1 : type === "EndDevice" ? 0 : query?.mains;
+        const power = definitionPower(r, def, mains, query?.mainsPowerSource);
+        // type is not known until the node descriptor is received during interview
+        const deviceType = type ?? (interviewState !== InterviewState.Successful && r.bool(0.5) ? "Unknown" : power.type);
+
         return {
-            ieee_address: eui64(this.r),
-            type: typeOrR,
-            network_address: this.r.int(1, 0xfff7),
+            ieee_address: ieeeAddress,
+            type: deviceType,
+            network_address: this.allocated.networkAddresses.draw(() => r.int(1, 0xfff7)),
             supported: true,
-            friendly_name: this.friendlyName(),
-            disabled: this.r.bool(0.05),
-            description: this.r.bool(0.25) ? sentence(this.r) : undefined,
+            friendly_name: this.allocated.friendlyNames.draw(() => this.friendlyName(r)),
+            disabled: r.bool(0.05),
+            description: r.bool(0.25) ? sentence(r) : undefined,
             definition: deviceDefinitionPayload(def),
-            power_source: typeOrR === "GreenPower" ? "Unknown" : powerSource(this.r),
-            software_build_id: `v${this.r.int(1, 3)}.${this.r.int(0, 9)}.${this.r.int(0, 99)}`,
-            date_code: `${this.r.int(2019, 2025)}${String(this.r.int(1, 12)).padStart(2, "0")}${String(this.r.int(1, 28)).padStart(2, "0")}`,
+            power_source: query?.powerSource ?? power.powerSource,
+            software_build_id: `v${r.int(1, 3)}.${r.int(0, 9)}.${r.int(0, 99)}`,
+            date_code: `${r.int(2019, 2025)}${String(r.int(1, 12)).padStart(2, "0")}${String(r.int(1, 28)).padStart(2, "0")}`,
             model_id: def.model,
             interviewing: interviewState === InterviewState.InProgress,
             interview_completed: interviewState === InterviewState.Successful,
             interview_state: interviewState,
             manufacturer: def.vendor,
-            endpoints: endpoints(this.r, definitionEndpoints(this.r, def) ?? (this.r.bool(0.95) ? { rnd_1: HA_ENDPOINT } : undefined)),
+            endpoints: definitionDeviceEndpoints(r, def, type ?? power.type),
         };
     }
 
     /**
-     * Generate the specified amount of devices
+     * Generate the specified amount of devices, following the fleet profile if any
      * @param count default 20
      * @returns
      */
@@ -650,44 +1568,97 @@ export class Zigbee2MQTTAPIFaker {
             return [];
         }
 
+        this.allocated.ieeeAddresses.ensureAvailable(count);
+        this.allocated.networkAddresses.ensureAvailable(count);
+        this.allocated.friendlyNames.ensureAvailable(count);
+
         const list: Zigbee2MQTTDevice[] = [];
 
         for (let i = 0; i < count; i++) {
-            list.push(this.device());
+            list.push(this.device(this.profile ? fleetDeviceQuery(this.r, this.profile) : undefined));
         }
 
         return list;
     }
 
     /**
-     * Generate a group with the specified members
+     * Generate a group with the specified members.
+     * ID and friendly name are unique within this faker.
      * @param members default 1..5
      * @returns
      */
     group(members: Zigbee2MQTTDevice[] = this.devices(this.r.int(1, 5))): Zigbee2MQTTGroup {
+        const id = this.allocated.groupIds.draw(() => this.r.int(1, 0xfffe));
+        // anything else from the group's own stream
+        const r = this.stream(`group/${id}`);
+        let friendlyName: string;
+
+        try {
+            friendlyName = this.allocated.friendlyNames.draw(() => (r.bool(0.05) ? "default_bind_group" : `${word(r)}_group_${r.int(1, 99)}`));
+        } catch (error) {
+            this.allocated.groupIds.delete(id);
+
+            throw error;
+        }
+
         return {
-            id: this.r.int(1, 0xfffe),
-            friendly_name: this.r.bool(0.05) ? "default_bind_group" : `${word(this.r)}_group_${this.r.int(1, 99)}`,
-            description: this.r.bool(0.5) ? sentence(this.r) : undefined,
-            scenes: Array.from({ length: this.r.int(0, 4) }, (_, i) => ({ id: i + 1, name: `scene_${i + 1}` })),
-            members: members.slice(0, this.r.int(0, Math.max(0, members.length - 1))).map((d) => ({
+            id,
+            friendly_name: friendlyName,
+            description: r.bool(0.5) ? sentence(r) : undefined,
+            scenes: Array.from({ length: r.int(0, 4) }, (_, i) => ({ id: i + 1, name: `scene_${i + 1}` })),
+            members: members.slice(0, r.int(0, Math.max(0, members.length - 1))).map((d) => ({
                 ieee_address: d.ieee_address,
-                endpoint: this.r.pick(Object.keys(d.endpoints).map((v) => Number(v))),
+                endpoint: r.pick(Object.keys(d.endpoints).map((v) => Number(v))),
             })),
         };
     }
 
     /**
-     * Generate a specified number of groups with specified possible members
+     * Generate a specified number of groups with specified possible members.
+     * Allocates either all groups or none (IDs & friendly names released if running out of unique values).
      * @param count default 4
-     * @param memberCandidates default 1..5
+     * @param memberCandidates default 1..5 new devices (only generated if capacity allows for `count` groups)
      * @returns
      */
-    groups(count = 4, memberCandidates = this.devices(this.r.int(1, 5))): Zigbee2MQTTGroup[] {
-        const groupMembers = Array.from({ length: this.r.int(0, memberCandidates.length - 1) }, () => this.r.pick(memberCandidates));
-        const uniqueGroupMembers = groupMembers.filter((m, idx) => groupMembers.indexOf(m) === idx);
+    groups(count = 4, memberCandidates?: Zigbee2MQTTDevice[]): Zigbee2MQTTGroup[] {
+        this.allocated.groupIds.ensureAvailable(count);
+        this.allocated.friendlyNames.ensureAvailable(count);
+
+        memberCandidates ??= this.devices(this.r.int(1, 5));
+        const groupMembers = this.r.sample(memberCandidates, this.r.int(0, memberCandidates.length - 1));
+        const list: Zigbee2MQTTGroup[] = [];
+
+        try {
+            for (let i = 0; i < count; i++) {
+                list.push(this.group(groupMembers));
+            }
+        } catch (error) {
+            for (const group of list) {
+                this.allocated.groupIds.delete(group.id);
+                this.allocated.friendlyNames.delete(group.friendly_name);
+            }
 
-        return Array.from({ length: count }, () => this.group(uniqueGroupMembers));
+            throw error;
+        }
+
+        return list;
+    }
+
+    /**
+     * Generate the bindings of given devices (replacing existing), targeting each other & given groups (see `bindings`)
+     * @param devices
+     * @param groups
+     * @param maxBindingsCount Per endpoint. Default: 3
+     */
+    bindDevices(devices: Zigbee2MQTTDevice[], groups: Zigbee2MQTTGroup[], maxBindingsCount = 3): void {
+        for (const device of devices) {
+            // own stream, other generation not shifted by the bindings
+            const r = this.stream(`bindings/${device.ieee_address}`);
+
+            for (const ep of Object.values(device.endpoints)) {
+                ep.bindings = bindings(r, r.int(0, maxBindingsCount), ep, devices, groups);
+            }
+        }
     }
 
     // #endregion
@@ -857,7 +1828,11 @@ export class Zigbee2MQTTAPIFaker {
                 elapsed: this.r.bool(0.5),
                 network_key: Array.from({ length: 16 }, () => this.r.int(0, 254)),
                 timestamp_format: "YYYY-MM-DD HH:mm:ss",
-                output: this.r.bool(0.95) ? "json" : this.r.pick(["json", "attribute", "attribute_and_json"] as const),
+                output: this.r.weightedPick([
+                    ["json", 0.96],
+                    ["attribute", 0.02],
+                    ["attribute_and_json", 0.02],
+                ] as const),
                 transmit_power: this.r.pick([undefined, 0, 5, 9, 15, 19, 20]),
             },
             health: {
@@ -895,7 +1870,6 @@ export class Zigbee2MQTTAPIFaker {
         permitJoin = this.r.bool(0.5),
         restartRequired = this.r.bool(0.01),
     ): Zigbee2MQTTAPI["bridge/info"] {
-        const channel = this.r.int(11, 26);
         const config = this.bridgeInfoConfig(
             [coordinator, ...devices],
             groups,
@@ -920,8 +1894,8 @@ export class Zigbee2MQTTAPIFaker {
             zigbee_herdsman_converters: { version: zhcPackageJSON.version },
             zigbee_herdsman: { version: zhPackageJSON.version },
             coordinator: {
-                ieee_address: this.coordinator().ieee_address,
-                type: this.r.pick(["ConBee3", "EmberZNet", "ZStack3x0"]),
+                ieee_address: coordinator.ieee_address,
+                type: COORDINATOR_TYPE_BY_ADAPTER[config.serial.adapter ?? ""] ?? this.r.pick(["ConBee3", "EmberZNet", "ZStack3x0"]),
                 meta: {
                     revision: `v${this.r.int(1, 10)}.${this.r.int(0, 20)}.${this.r.int(0, 99)}`,
                 },
@@ -929,11 +1903,11 @@ export class Zigbee2MQTTAPIFaker {
             network: {
                 pan_id: config.advanced.pan_id,
                 extended_pan_id: extendedPanIdFromArray(config.advanced.ext_pan_id),
-                channel,
+                channel: config.advanced.channel,
             },
             log_level: config.advanced.log_level,
             permit_join: permitJoin,
-            permit_join_end: permitJoin ? Date.now() + this.r.int(30_000, 254_000) : undefined,
+            permit_join_end: permitJoin ? this.clock() + this.r.int(30_000, 254_000) : undefined,
             restart_required: restartRequired,
             config,
             config_schema: z2mSchemaJson,
@@ -963,7 +1937,7 @@ export class Zigbee2MQTTAPIFaker {
         const procMemUsedMb = this.r.int(50, 150);
 
         return {
-            response_time: Date.now(),
+            response_time: this.clock(),
             os: {
                 load_average: [this.r.float(0, 1.5), this.r.float(0, 1.5), this.r.float(0, 1.5)].map((x) => Math.round(x * 100) / 100),
                 memory_used_mb: sysMemUsedMb,
@@ -1070,50 +2044,34 @@ export class Zigbee2MQTTAPIFaker {
         partial = false,
         overrides: Partial<Zigbee2MQTTAPI["{friendlyName}"]> = {},
     ): Zigbee2MQTTAPI["{friendlyName}"] {
+        // from the device's own state stream, successive calls continue it
+        const r = this.stream(`state/${device.ieee_address}`);
         const base: Zigbee2MQTTAPI["{friendlyName}"] = {};
 
         if (device.definition) {
-            if (device.definition.supports_ota && this.r.bool(0.85)) {
-                const installedVersion = this.r.int(1, 249_999_999);
-                const latestVersion = this.r.bool(0.75) ? installedVersion : this.r.int(installedVersion, 250_000_000);
-                const updateState = installedVersion === latestVersion ? "idle" : otaState(this.r, latestVersion > installedVersion);
+            if (device.definition.supports_ota && r.bool(0.85)) {
+                const installedVersion = r.int(1, 249_999_999);
+                const latestVersion = r.bool(0.75) ? installedVersion : r.int(installedVersion, 250_000_000);
+                const updateState = installedVersion === latestVersion ? "idle" : otaState(r, latestVersion > installedVersion);
 
                 base.update = {
-                    progress: updateState === "updating" ? this.r.int(0, 100) : undefined,
-                    remaining: updateState === "updating" ? this.r.int(1, 1800) : undefined,
+                    progress: updateState === "updating" ? r.int(0, 100) : undefined,
+                    remaining: updateState === "updating" ? r.int(1, 1800) : undefined,
                     state: updateState,
                     installed_version: installedVersion,
                     latest_version: latestVersion,
                 };
             }
 
-            const iterateFn = (expose: Expose) => {
-                if (expose.property || expose.name) {
-                    base[expose.property ?? expose.name] = exposeValue(this.r, expose);
-                }
-            };
-
             if (device.definition.exposes.length > 0) {
-                if (partial) {
-                    const picked: Expose[] = [];
-
-                    for (let i = 0; i < device.definition.exposes.length; i++) {
-                        if (this.r.bool(0.3)) {
-                            const expose = device.definition.exposes[i];
-
-                            picked.push(expose);
-                        }
-                    }
+                const exposes = partial ? device.definition.exposes.filter(() => r.bool(0.3)) : device.definition.exposes;
 
-                    iterateExposes(picked, iterateFn);
-                } else {
-                    iterateExposes(device.definition.exposes, iterateFn);
-                }
+                Object.assign(base, exposesValue(r, exposes, this.clock()));
             }
         }
 
         return {
-            last_seen: isoPastDate(this.r),
+            last_seen: isoPastDate(r, this.clock()),
             ...base,
             ...overrides,
         };
@@ -1128,14 +2086,23 @@ export class Zigbee2MQTTAPIFaker {
     }
 
     /**
-     * Generate a "raw" network map
-     * TODO: the map currently does not make sense in "Zigbee-way"
+     * Generate a "raw" network map.
+     * With `tree` (or `routes`), links follow a Zigbee tree/mesh topology; without, links are random (not consistent in a "Zigbee-way")
+     * and never have routes, since routes can only be derived from a topology.
      * @param coordinator
      * @param devices
-     * @param routes Optionally include routes, defaults to false (bool not randomized)
+     * @param routes Optionally include routes from routing tables (see `routingTables()`), implies `tree`, defaults to false (bool not randomized)
+     * @param tree Optionally derive links from a Zigbee tree/mesh topology (see `topology()`), defaults to false (bool not randomized)
+     * @param options Topology & routing tables options, only used with `tree` or `routes`
      * @returns
      */
-    networkMap(coordinator: Zigbee2MQTTDevice, devices: Zigbee2MQTTDevice[], routes = false): Zigbee2MQTTNetworkMap {
+    networkMap(
+        coordinator: Zigbee2MQTTDevice,
+        devices: Zigbee2MQTTDevice[],
+        routes = false,
+        tree = false,
+        options: ZigbeeTopologyOptions & ZigbeeRoutingTablesOptions = {},
+    ): Zigbee2MQTTNetworkMap {
         const nodes: Zigbee2MQTTNetworkMap["nodes"] = [];
 
         for (const device of [coordinator, ...devices]) {
@@ -1150,7 +2117,7 @@ export class Zigbee2MQTTAPIFaker {
                 networkAddress: device.network_address,
                 manufacturerName: device.manufacturer,
                 modelID: device.model_id,
-                lastSeen: Date.now() - this.r.int(0, 36_000_000),
+                lastSeen: this.clock() - this.r.int(0, 36_000_000),
                 definition: device.definition
                     ? {
                           model: device.definition.model,
@@ -1169,6 +2136,63 @@ export class Zigbee2MQTTAPIFaker {
         }
 
         const links: Zigbee2MQTTNetworkMap["links"] = [];
+
+        if (tree || routes) {
+            // "Unknown" considered as "EndDevice", same as `relationshipByType`
+            const topo = topology(
+                this.r,
+                nodes.map((n) => (n.type === "Coordinator" || n.type === "Router" ? n.type : "EndDevice")),
+                options,
+            );
+            const treeNodes = topo.nodes;
+            const tables = routes ? routingTables(this.r, topo, options) : undefined;
+
+            for (let i = 0; i < treeNodes.length; i++) {
+                const b = nodes[i];
+
+                // neighbor table of `b`, each neighbor `a` is the source of a link
+                for (const neighbor of treeNodes[i].neighbors) {
+                    const a = nodes[neighbor.index];
+                    const aTreeNode = treeNodes[neighbor.index];
+
+                    links.push({
+                        source: { ieeeAddr: a.ieeeAddr, networkAddress: a.networkAddress },
+                        target: { ieeeAddr: b.ieeeAddr, networkAddress: b.networkAddress },
+                        linkquality: neighbor.lqi,
+                        depth: aTreeNode.depth,
+                        // routing table of `b` via `a`
+                        routes: tables
+                            ? tables[i]
+                                  .filter((route) => route.nextHop === neighbor.index)
+                                  .map((route) => ({
+                                      destinationAddress: nodes[route.destination].networkAddress,
+                                      status: route.status,
+                                      memoryConstrained: 0x0,
+                                      manyToOne: route.manyToOne ? 0x1 : 0x0,
+                                      routeRecordRequired: route.routeRecordRequired ? 0x1 : 0x0,
+                                      reserved1: 0x0,
+                                      nextHopAddress: a.networkAddress,
+                                  }))
+                            : [],
+                        /** @deprecated */
+                        sourceIeeeAddr: a.ieeeAddr,
+                        /** @deprecated */
+                        targetIeeeAddr: b.ieeeAddr,
+                        /** @deprecated */
+                        sourceNwkAddr: a.networkAddress,
+                        /** @deprecated */
+                        lqi: neighbor.lqi,
+                        relationship: neighbor.relationship,
+                        deviceType: a.type === "EndDevice" ? 0x02 : a.type === "Router" ? 0x01 : a.type === "Coordinator" ? 0x00 : 0x03,
+                        rxOnWhenIdle: aTreeNode.type === "EndDevice" ? 0x00 : 0x01,
+                        permitJoining: aTreeNode.type === "EndDevice" ? 0x00 : permitJoining(this.r),
+                    });
+                }
+            }
+
+            return { nodes, links };
+        }
+
         /** favor Coordinator (idx 0) 75% of the time on small networks, 50% on larger networks */
         const pickNodeIdx = () => (this.r.bool(nodes.length < 50 ? 0.75 : 0.5) ? 0 : this.r.int(1, nodes.length - 1));
 
@@ -1196,19 +2220,7 @@ export class Zigbee2MQTTAPIFaker {
                     target: { ieeeAddr: b.ieeeAddr, networkAddress: b.networkAddress },
                     linkquality,
                     depth: this.r.int(1, 3),
-                    routes: routes
-                        ? [
-                              {
-                                  destinationAddress: a.networkAddress,
-                                  status: routingTableEntryStatus(this.r),
-                                  memoryConstrained: 0x0,
-                                  manyToOne: a.type === "Coordinator" ? 0x1 : 0x0,
-                                  routeRecordRequired: 0x0,
-                                  reserved1: 0x0,
-                                  nextHopAddress: a.networkAddress,
-                              },
-                          ]
-                        : [],
+                    routes: [],
                     /** @deprecated */
                     sourceIeeeAddr: a.ieeeAddr,
                     /** @deprecated */
@@ -1221,7 +2233,7 @@ export class Zigbee2MQTTAPIFaker {
                     relationship: relationshipByType(this.r, a.type as RelationshipType, b.type as RelationshipType),
                     deviceType: a.type === "EndDevice" ? 0x02 : a.type === "Router" ? 0x01 : a.type === "Coordinator" ? 0x00 : 0x03,
                     rxOnWhenIdle: this.r.bool(0.05) ? 0x02 : a.type === "Router" || a.type === "Coordinator" ? 0x01 : 0x00,
-                    permitJoining: this.r.bool(0.25) ? 0x02 : this.r.bool(0.05) ? 0x01 : 0x00,
+                    permitJoining: permitJoining(this.r),
                 });
             }
         }
@@ -1233,14 +2245,22 @@ export class Zigbee2MQTTAPIFaker {
      * Generate a "bridge/response/networkmap" payload
      * @param coordinator
      * @param devices
-     * @param routes Optionally include routes, defaults to false (bool not randomized)
+     * @param routes Optionally include routes from routing tables, implies `tree`, defaults to false (bool not randomized)
+     * @param tree Optionally derive links from a Zigbee tree/mesh topology, defaults to false (bool not randomized)
+     * @param options Topology & routing tables options, only used with `tree` or `routes`
      * @returns
      */
-    rawNetworkMap(coordinator: Zigbee2MQTTDevice, devices: Zigbee2MQTTDevice[], routes?: boolean): Zigbee2MQTTAPI["bridge/response/networkmap"] {
+    rawNetworkMap(
+        coordinator: Zigbee2MQTTDevice,
+        devices: Zigbee2MQTTDevice[],
+        routes?: boolean,
+        tree?: boolean,
+        options?: ZigbeeTopologyOptions & ZigbeeRoutingTablesOptions,
+    ): Zigbee2MQTTAPI["bridge/response/networkmap"] {
         return {
             type: "raw",
             routes: routes ?? false,
-            value: this.networkMap(coordinator, devices, routes),
+            value: this.networkMap(coordinator, devices, routes, tree, options),
         };
     }
 
@@ -1286,6 +2306,8 @@ export default {
         const devices = this.devices(deviceCount);
         const groups = this.groups(groupCount, devices);
 
+        this.bindDevices(devices, groups);
+
         return {
             state: this.bridgeState(),
             info: this.bridgeInfo(coordinator, devices, groups),
@@ -0,0 +1,220 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { BridgeRequestHandler } from "../src/bridge.js";
+import { FakeNetwork } from "../src/network.js";
+
+describe("BridgeRequestHandler", () => {
+    beforeAll(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(1735689601000);
+    });
+
+    afterAll(() => {
+        vi.useRealTimers();
+    });
+
+    it("renames and removes devices", () => {
+        const network = new FakeNetwork(1, 10, 2);
+        const handler = new BridgeRequestHandler(network);
+        const device = network.devices[1];
+        const from = device.friendly_name;
+        const rename = handler.handle("bridge/request/device/rename", { from, to: "kitchen/light", transaction: "abc" });
+
+        expect(rename.response).toStrictEqual({
+            topic: "bridge/response/device/rename",
+            payload: { status: "ok", data: { from, to: "kitchen/light", homeassistant_rename: false }, transaction: "abc" },
+        });
+        expect(rename.publish.map((m) => m.topic)).toStrictEqual(["bridge/devices", "bridge/info"]);
+        expect(network.getDevice("kitchen/light")).toBe(device);
+        expect(network.getDevice(from)).toBeUndefined();
+
+        const conflict = handler.handle("bridge/request/device/rename", { from: "kitchen/light", to: network.devices[0].friendly_name });
+
+        expect(conflict.response.payload).toStrictEqual({
+            status: "error",
+            data: {},
+            error: `Friendly name '${network.devices[0].friendly_name}' is already in use`,
+            transaction: undefined,
+        });
+        expect(conflict.publish).toStrictEqual([]);
+
+        const remove = handler.handle("bridge/request/device/remove", { id: "kitchen/light" });
+
+        expect(remove.response.payload.status).toStrictEqual("ok");
+        expect(network.bridgeDevices()).not.toContain(device);
+        expect(Object.keys(network.bridgeInfo().config.devices)).not.toContain(device.ieee_address);
+
+        for (const group of network.bridgeGroups()) {
+            expect(group.members.some((m) => m.ieee_address === device.ieee_address)).toStrictEqual(false);
+        }
+
+        expect(handler.handle("bridge/request/device/remove", { id: "kitchen/light" }).response.payload).toMatchObject({
+            status: "error",
+            error: "Device 'kitchen/light' does not exist",
+        });
+    });
+
+    it("renames the last joined device", () => {
+        const network = new FakeNetwork(1, 10, 2);
+        const handler = new BridgeRequestHandler(network);
+        const names = network.devices.map((d) => d.friendly_name);
+
+        expect(handler.handle("bridge/request/device/rename", { last: true, to: "new" }).response.payload).toMatchObject({
+            status: "error",
+            error: "No device has joined since start",
+        });
+        expect(network.devices.map((d) => d.friendly_name)).toStrictEqual(names);
+
+        const joined = network.addDevice();
+        const from = joined.friendly_name;
+
+        network.addDevice(undefined, undefined, false);
+
+        expect(handler.handle("bridge/request/device/rename", { last: true, to: "new" }).response.payload).toMatchObject({
+            status: "ok",
+            data: { from, to: "new" },
+        });
+        expect(joined.friendly_name).toStrictEqual("new");
+        expect(network.devices.slice(0, 10).map((d) => d.friendly_name)).toStrictEqual(names);
+
+        handler.handle("bridge/request/device/remove", { id: "new" });
+
+        expect(handler.handle("bridge/request/device/rename", { last: true, to: "other" }).response.payload).toMatchObject({
+            status: "error",
+            error: "No device has joined since start",
+        });
+    });
+
+    it("manages groups and members", () => {
+        const network = new FakeNetwork(2, 10, 2);
+        const handler = new BridgeRequestHandler(network);
+        const add = handler.handle("bridge/request/group/add", { friendly_name: "living room" });
+
+        expect(add.response.payload.status).toStrictEqual("ok");
+
+        const group = network.getGroup("living room")!;
+
+        expect(add.response.payload.data).toStrictEqual({ friendly_name: "living room", id: group.id });
+        expect(network.groups.filter((g) => g.id === group.id).length).toStrictEqual(1);
+
+        const device = network.devices[0];
+        const member = handler.handle("bridge/request/group/members/add", { group: "living room", device: device.ieee_address, endpoint: "default" });
+
+        expect(member.response.payload.status).toStrictEqual("ok");
+        expect(member.publish[0].topic).toStrictEqual("bridge/groups");
+        expect(group.members).toStrictEqual([{ ieee_address: device.ieee_address, endpoint: Number(Object.keys(device.endpoints)[0]) }]);
+
+        handler.handle("bridge/request/group/members/remove_all", { device: device.friendly_name, endpoint: "default" });
+
+        expect(group.members).toStrictEqual([]);
+
+        const options = handler.handle("bridge/request/group/options", { id: "living room", options: { retain: true } });
+
+        expect(options.response.payload.data).toMatchObject({ to: { retain: true, friendly_name: "living room" } });
+        expect(network.bridgeInfo().config.groups[group.id]).toStrictEqual({ retain: true, friendly_name: "living room" });
+
+        handler.handle("bridge/request/group/remove", { id: String(group.id) });
+
+        expect(network.getGroup(group.id)).toBeUndefined();
+        expect(
+            handler.handle("bridge/request/group/add", { friendly_name: "living room", id: String(group.id) }).response.payload.status,
+        ).toStrictEqual("ok");
+    });
+
+    it("binds and unbinds", () => {
+        const network = new FakeNetwork(3, 10, 2);
+        const handler = new BridgeRequestHandler(network);
+        const source = network.devices.find((d) => Object.values(d.endpoints).some((ep) => ep.clusters.output.length > 0))!;
+        const sourceEndpoint = Object.keys(source.endpoints).find((key) => source.endpoints[key].clusters.output.length > 0)!;
+        const cluster = source.endpoints[sourceEndpoint].clusters.output[0];
+        const group = network.groups[0];
+        const bind = handler.handle("bridge/request/device/bind", {
+            from: source.friendly_name,
+            from_endpoint: Number(sourceEndpoint),
+            to: group.friendly_name,
+            clusters: [cluster, "notACluster"],
+        });
+
+        expect(bind.response.payload.data).toMatchObject({ clusters: [cluster], failed: ["notACluster"] });
+        expect(source.endpoints[sourceEndpoint].bindings).toContainEqual({ cluster, target: { type: "group", id: group.id } });
+
+        const unbind = handler.handle("bridge/request/device/unbind", {
+            from: source.friendly_name,
+            from_endpoint: Number(sourceEndpoint),
+            to: group.id,
+        });
+
+        expect(unbind.response.payload.data).toMatchObject({ clusters: [cluster], failed: [] });
+        expect(source.endpoints[sourceEndpoint].bindings.some((b) => b.target.type === "group" && b.target.id === group.id)).toStrictEqual(false);
+        expect(
+            handler.handle("bridge/request/device/unbind", { from: source.friendly_name, from_endpoint: Number(sourceEndpoint), to: group.id })
+                .response.payload,
+        ).toMatchObject({ status: "error", error: "Nothing to unbind" });
+    });
+
+    it("handles bridge requests", () => {
+        const network = new FakeNetwork(4, 10, 2);
+        const handler = new BridgeRequestHandler(network);
+        const permitJoin = handler.handle("bridge/request/permit_join", "60");
+
+        expect(permitJoin.response.payload.status).toStrictEqual("ok");
+        expect(network.bridgeInfo().permit_join).toStrictEqual(true);
+        expect(network.bridgeInfo().permit_join_end).toStrictEqual(1735689601000 + 60000);
+
+        const logLevel = handler.handle("bridge/request/options", { options: { advanced: { log_level: "debug" } } });
+
+        expect(logLevel.response.payload.data).toStrictEqual({ restart_required: false });
+        expect(network.bridgeInfo().log_level).toStrictEqual("debug");
+
+        const channel = handler.handle("bridge/request/options", { options: { advanced: { channel: 25 } } });
+
+        expect(channel.response.payload.data).toStrictEqual({ restart_required: true });
+        expect(network.bridgeInfo().restart_required).toStrictEqual(true);
+        expect(handler.handle("bridge/request/health_check", "").response.payload).toStrictEqual({
+            status: "ok",
+            data: { healthy: true },
+            transaction: undefined,
+        });
+        expect(handler.handle("bridge/request/networkmap", { type: "raw", routes: false }).response.payload.data).toStrictEqual(network.networkMap());
+        expect(handler.handle("bridge/request/backup", "").response.payload).toMatchObject({
+            status: "error",
+            error: "Request 'bridge/request/backup' is not supported",
+        });
+    });
+
+    it("injects errors", () => {
+        const network = new FakeNetwork(5, 10, 2);
+        const forced = new BridgeRequestHandler(network, 1, { errors: { "bridge/request/device/rename": "Timeout" } });
+        const from = network.devices[0].friendly_name;
+
+        expect(forced.handle("bridge/request/device/rename", { from, to: "x", transaction: "1" }).response.payload).toStrictEqual({
+            status: "error",
+            data: {},
+            error: "Timeout",
+            transaction: "1",
+        });
+        expect(network.devices[0].friendly_name).toStrictEqual(from);
+        // numeric transaction echoed as-is
+        expect(
+            forced.handle("bridge/request/device/rename", JSON.stringify({ from, to: "x", transaction: 7 })).response.payload.transaction,
+        ).toStrictEqual(7);
+        expect(
+            new BridgeRequestHandler(network).handle("bridge/request/health_check", JSON.stringify({ transaction: 0 })).response.payload,
+        ).toStrictEqual({
+            status: "ok",
+            data: { healthy: true },
+            transaction: 0,
+        });
+
+        const random = new BridgeRequestHandler(network, 1, { errorRate: 0.5 });
+        let errors = 0;
+
+        for (let i = 0; i < 200; i++) {
+            if (random.handle("bridge/request/health_check", "").response.payload.status === "error") {
+                errors++;
+            }
+        }
+
+        expect(errors).toBeGreaterThan(60);
+        expect(errors).toBeLessThan(140);
+    });
+});
@@ -0,0 +1,120 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { runCli } from "../src/cli.js";
+
+const run = (...argv: string[]) => {
+    const io = { out: "", err: "" };
+    const code = runCli(argv, {
+        stdout: (chunk) => {
+            io.out += chunk;
+        },
+        stderr: (chunk) => {
+            io.err += chunk;
+        },
+    });
+
+    return { code, ...io };
+};
+
+describe("CLI", () => {
+    it("generates reproducible output without timer mocking", () => {
+        const first = run("snapshot", "--seed", "42", "--devices", "5", "--groups", "2", "--time", "1735689601000", "--format", "json");
+        const second = run("snapshot", "--seed", "42", "--devices", "5", "--groups", "2", "--time", "1735689601000", "--format", "json");
+
+        expect(first.code).toStrictEqual(0);
+        expect(first.out).toStrictEqual(second.out);
+        expect(first.out.split("\n").length).toStrictEqual(2);
+
+        const snapshot = JSON.parse(first.out);
+
+        expect(snapshot.devices.length).toStrictEqual(6);
+        expect(snapshot.groups.length).toStrictEqual(2);
+        expect(snapshot.health.response_time).toStrictEqual(1735689601000);
+        // stable key order
+        expect(Object.keys(snapshot)).toStrictEqual(Object.keys(snapshot).sort());
+        expect(run("snapshot", "--seed", "43", "--devices", "5", "--groups", "2", "--time", "1735689601000").out).not.toStrictEqual(first.out);
+    });
+
+    it("generates device, states & network map", () => {
+        const device = JSON.parse(run("device", "--model", "GL-C-007-2ID", "--type", "Router").out);
+
+        expect(device.type).toStrictEqual("Router");
+        expect(device.definition.model).toStrictEqual("GL-C-007-2ID");
+        expect(JSON.parse(run("device", "--vendor", "IKEA", "--exposes", "light,color_temp").out).manufacturer).toStrictEqual("IKEA");
+
+        const states = run("states", "--devices", "3", "--format", "ndjson");
+        const lines = states.out.trimEnd().split("\n");
+
+        expect(lines.length).toStrictEqual(3);
+        expect(Object.keys(JSON.parse(lines[0]))).toStrictEqual(["friendly_name", "state"]);
+
+        const networkMap = JSON.parse(run("networkmap", "--devices", "3", "--routes").out);
+
+        expect(networkMap).toMatchObject({ type: "raw", routes: true });
+        // GreenPower devices are not part of the network map
+        expect(networkMap.value.nodes.length).toBeGreaterThan(0);
+        expect(networkMap.value.nodes.length).toBeLessThanOrEqual(4);
+    });
+
+    it("lists ZHC data", () => {
+        const models = JSON.parse(run("list", "models").out);
+        const exposes = run("list", "exposes", "--format", "ndjson").out.trimEnd().split("\n");
+
+        expect(models.length).toBeGreaterThan(1000);
+        expect(models[0]).toStrictEqual({ model: expect.any(String), whitelabels: expect.any(Array) });
+        expect(JSON.parse(exposes[0])).toStrictEqual({ name: expect.any(String), count: expect.any(Number) });
+    });
+
+    it("writes snapshot files", () => {
+        const dir = mkdtempSync(join(tmpdir(), "zigbee-faker-"));
+
+        try {
+            const { code, out } = run("snapshot", "--devices", "3", "--groups", "1", "--out", dir);
+
+            expect(code).toStrictEqual(0);
+            expect(out).toStrictEqual("");
+            expect(readdirSync(dir).sort()).toStrictEqual([
+                "converters.json",
+                "devices.json",
+                "extensions.json",
+                "groups.json",
+                "health.json",
+                "info.json",
+                "networkMap.json",
+                "state.json",
+            ]);
+            expect(JSON.parse(readFileSync(join(dir, "devices.json"), "utf8")).length).toStrictEqual(4);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it("generates from scenario file", () => {
+        const dir = mkdtempSync(join(tmpdir(), "zigbee-faker-"));
+
+        try {
+            const file = join(dir, "scenario.json");
+
+            writeFileSync(file, JSON.stringify({ seed: 3, time: 0, devices: [{ count: 2, model: "WSDCGQ11LM", friendlyName: "sensor" }] }), "utf8");
+
+            const states = run("states", "--scenario", file, "--format", "ndjson").out.trimEnd().split("\n");
+
+            expect(states.map((line) => JSON.parse(line).friendly_name)).toStrictEqual(["sensor_1", "sensor_2"]);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it("reports invalid usage", () => {
+        expect(run().out).toContain("Usage: zigbee-faker");
+        expect(run("nope")).toMatchObject({ code: 1, err: expect.stringContaining("Unknown command 'nope'") });
+        expect(run("device", "--model", "nope")).toMatchObject({ code: 1, err: expect.stringContaining("Unknown model 'nope'") });
+        expect(run("device", "--type", "Coordinator")).toMatchObject({ code: 1, err: expect.stringContaining("Invalid --type 'Coordinator'") });
+        expect(run("snapshot", "--seed", "x")).toMatchObject({ code: 1, err: expect.stringContaining("Invalid --seed 'x'") });
+        expect(run("list", "--format", "xml")).toMatchObject({ code: 1, err: expect.stringContaining("Invalid --format 'xml'") });
+        expect(run("list")).toMatchObject({ code: 1, err: expect.stringContaining("Missing list") });
+        expect(run("snapshot", "--nope")).toMatchObject({ code: 1, err: expect.stringContaining("Unknown option '--nope'") });
+    });
+});
@@ -0,0 +1,68 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { entityHistory } from "../src/history.js";
+import Rng from "../src/rng.js";
+import { Zigbee2MQTTAPIFaker } from "../src/zigbee2mqtt.js";
+
+describe("History", () => {
+    beforeAll(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(1735689601000);
+    });
+
+    afterAll(() => {
+        vi.useRealTimers();
+    });
+
+    it("generates continuous sensor history", () => {
+        const faker = new Zigbee2MQTTAPIFaker(1);
+        const device = faker.device("EndDevice", "WSDCGQ11LM");
+        const samples = entityHistory(new Rng(1), device, { start: 1735689600000, end: 1735776000000, interval: 600_000 });
+
+        expect(samples.length).toStrictEqual(145);
+        expect(entityHistory(new Rng(1), device, { start: 1735689600000, end: 1735776000000, interval: 600_000 })).toStrictEqual(samples);
+
+        for (let i = 0; i < samples.length; i++) {
+            const { timestamp, state } = samples[i];
+
+            expect(timestamp).toStrictEqual(1735689600000 + i * 600_000);
+            expect(state.last_seen).toStrictEqual(new Date(timestamp).toISOString());
+            expect(state.temperature).toBeGreaterThanOrEqual(15);
+            expect(state.temperature).toBeLessThanOrEqual(28);
+            expect(state.humidity).toBeGreaterThanOrEqual(30);
+            expect(state.humidity).toBeLessThanOrEqual(70);
+
+            if (i > 0) {
+                const previous = samples[i - 1].state;
+
+                // 2% of range per 5 minutes, sqrt(2) for 10 minutes
+                expect(Math.abs((state.temperature as number) - (previous.temperature as number))).toBeLessThanOrEqual(13 * 0.02 * Math.SQRT2 + 0.01);
+                expect(state.battery).toBeLessThanOrEqual(previous.battery as number);
+            }
+        }
+
+        expect(new Set(samples.map((s) => s.state.temperature)).size).toBeGreaterThan(10);
+    });
+
+    it("keeps energy monotonic and toggles binaries", () => {
+        const faker = new Zigbee2MQTTAPIFaker(2);
+        const plug = faker.device("Router", "ZNCZ04LM");
+        const initial = { ...faker.entityState(plug), energy: 12.5, state: "ON" };
+        const samples = entityHistory(new Rng(2), plug, { start: 1735689600000, end: 1736294400000, interval: 3_600_000, initial });
+
+        expect(samples[0].state.energy).toStrictEqual(12.5);
+
+        for (let i = 1; i < samples.length; i++) {
+            expect(samples[i].state.energy).toBeGreaterThanOrEqual(samples[i - 1].state.energy as number);
+        }
+
+        expect(samples.at(-1)!.state.energy).toBeGreaterThan(12.5);
+        expect(new Set(samples.map((s) => s.state.state))).toStrictEqual(new Set(["ON", "OFF"]));
+    });
+
+    it("validates window", () => {
+        const device = new Zigbee2MQTTAPIFaker(3).device();
+
+        expect(() => entityHistory(new Rng(3), device, { start: 10, end: 0 })).toThrow("Invalid window");
+        expect(() => entityHistory(new Rng(3), device, { interval: 0 })).toThrow("Invalid interval 0");
+    });
+});
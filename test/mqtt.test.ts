@@ -0,0 +1,186 @@
+import { connect, type Socket } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { MqttBroker, topicMatches, Zigbee2MQTTServer } from "../src/mqtt.js";
+import { FakeNetwork } from "../src/network.js";
+
+const str = (value: string) => {
+    const buf = Buffer.from(value);
+
+    return Buffer.concat([Buffer.from([buf.length >> 8, buf.length & 0xff]), buf]);
+};
+
+const packet = (header: number, body: Buffer) => {
+    // test packets stay below 128 bytes
+    return Buffer.concat([Buffer.from([header, body.length]), body]);
+};
+
+/** Minimal MQTT 3.1.1 client for testing purposes */
+class TestClient {
+    readonly messages: { topic: string; payload: string; retain: boolean }[] = [];
+    readonly packetTypes: number[] = [];
+    private buffer = Buffer.alloc(0);
+
+    private constructor(readonly socket: Socket) {
+        // broker closing first
+        socket.on("error", () => {});
+        socket.on("data", (data) => {
+            this.buffer = Buffer.concat([this.buffer, data]);
+
+            while (this.buffer.length >= 2) {
+                let multiplier = 1;
+                let length = 0;
+                let offset = 1;
+                let byte: number;
+
+                do {
+                    byte = this.buffer[offset++];
+                    length += (byte & 0x7f) * multiplier;
+                    multiplier *= 128;
+                } while (byte & 0x80);
+
+                if (this.buffer.length < offset + length) {
+                    return;
+                }
+
+                const type = this.buffer[0] >> 4;
+                const body = this.buffer.subarray(offset, offset + length);
+
+                this.packetTypes.push(type);
+
+                if (type === 3) {
+                    const topicLength = body.readUInt16BE(0);
+
+                    this.messages.push({
+                        topic: body.toString("utf8", 2, 2 + topicLength),
+                        payload: body.toString("utf8", 2 + topicLength),
+                        retain: (this.buffer[0] & 0x01) === 0x01,
+                    });
+                }
+
+                this.buffer = this.buffer.subarray(offset + length);
+            }
+        });
+    }
+
+    static async connect(port: number, clientId: string): Promise<TestClient> {
+        const socket = connect(port, "127.0.0.1");
+
+        await new Promise((resolve) => socket.once("connect", resolve));
+
+        const client = new TestClient(socket);
+
+        socket.write(packet(0x10, Buffer.concat([str("MQTT"), Buffer.from([4, 0x02, 0, 60]), str(clientId)])));
+        await client.waitFor(() => client.packetTypes.includes(2));
+
+        return client;
+    }
+
+    subscribe(filter: string): void {
+        this.socket.write(packet(0x82, Buffer.concat([Buffer.from([0, 1]), str(filter), Buffer.from([0])])));
+    }
+
+    publish(topic: string, payload: string, qos = 0): void {
+        this.socket.write(
+            packet(0x30 | (qos << 1), Buffer.concat([str(topic), qos > 0 ? Buffer.from([0, 7]) : Buffer.alloc(0), Buffer.from(payload)])),
+        );
+    }
+
+    async waitFor(fn: () => boolean): Promise<void> {
+        while (!fn()) {
+            await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+    }
+
+    end(): void {
+        this.socket.end(Buffer.from([0xe0, 0x00]));
+    }
+}
+
+describe("MQTT", () => {
+    const toStop: { stop: () => Promise<void> }[] = [];
+
+    afterEach(async () => {
+        for (const item of toStop.splice(0)) {
+            await item.stop();
+        }
+    });
+
+    it("matches topics", () => {
+        expect(topicMatches("zigbee2mqtt/#", "zigbee2mqtt/bridge/info")).toStrictEqual(true);
+        expect(topicMatches("zigbee2mqtt/#", "zigbee2mqtt")).toStrictEqual(true);
+        expect(topicMatches("zigbee2mqtt/+/availability", "zigbee2mqtt/lamp/availability")).toStrictEqual(true);
+        expect(topicMatches("zigbee2mqtt/+", "zigbee2mqtt/bridge/info")).toStrictEqual(false);
+        expect(topicMatches("zigbee2mqtt/bridge/info", "zigbee2mqtt/bridge/info")).toStrictEqual(true);
+        expect(topicMatches("zigbee2mqtt/bridge", "zigbee2mqtt/bridge/info")).toStrictEqual(false);
+        expect(topicMatches("#", "$SYS/broker")).toStrictEqual(false);
+    });
+
+    it("routes messages between clients", async () => {
+        const broker = new MqttBroker();
+
+        toStop.push({ stop: () => broker.close() });
+        await broker.listen(0);
+
+        const received: string[] = [];
+
+        broker.on("message", (topic, payload, clientId) => received.push(`${clientId}:${topic}:${payload.toString()}`));
+        broker.publish("test/retained", "hello", true);
+
+        const subscriber = await TestClient.connect(broker.port!, "sub");
+        const publisher = await TestClient.connect(broker.port!, "pub");
+
+        subscriber.subscribe("test/#");
+        await subscriber.waitFor(() => subscriber.messages.length === 1);
+        publisher.publish("test/live", "world", 1);
+        await subscriber.waitFor(() => subscriber.messages.length === 2);
+        await publisher.waitFor(() => publisher.packetTypes.includes(4));
+
+        expect(subscriber.messages).toStrictEqual([
+            { topic: "test/retained", payload: "hello", retain: true },
+            { topic: "test/live", payload: "world", retain: false },
+        ]);
+        expect(received).toStrictEqual(["pub:test/live:world"]);
+
+        subscriber.end();
+        publisher.end();
+    });
+
+    it("serves a fake Zigbee2MQTT", async () => {
+        const network = new FakeNetwork(1, 10, 2);
+        const server = new Zigbee2MQTTServer(network, { port: 0, baseTopic: "z2m", speed: 3600, tickInterval: 10 });
+
+        toStop.push(server);
+        await server.start();
+
+        const client = await TestClient.connect(server.broker.port!, "frontend");
+
+        client.subscribe("z2m/#");
+        await client.waitFor(() => client.messages.some((m) => !m.retain && !m.topic.startsWith("z2m/bridge/")));
+
+        const bridgeInfo = client.messages.find((m) => m.topic === "z2m/bridge/info");
+
+        expect(bridgeInfo?.retain).toStrictEqual(true);
+        expect(JSON.parse(bridgeInfo!.payload).coordinator.ieee_address).toStrictEqual(network.coordinator.ieee_address);
+        expect(client.messages.find((m) => m.topic === "z2m/bridge/devices")?.retain).toStrictEqual(true);
+        expect(client.messages.find((m) => m.topic === "z2m/bridge/state")?.payload).toStrictEqual(JSON.stringify({ state: "online" }));
+
+        const from = network.devices[0].friendly_name;
+
+        client.publish("z2m/bridge/request/device/rename", JSON.stringify({ from, to: "renamed", transaction: "t1" }));
+        await client.waitFor(() => client.messages.some((m) => m.topic === "z2m/bridge/response/device/rename"));
+
+        const response = client.messages.find((m) => m.topic === "z2m/bridge/response/device/rename");
+
+        expect(JSON.parse(response!.payload)).toStrictEqual({
+            status: "ok",
+            data: { from, to: "renamed", homeassistant_rename: false },
+            transaction: "t1",
+        });
+        expect(network.devices[0].friendly_name).toStrictEqual("renamed");
+
+        client.publish("z2m/renamed/set", JSON.stringify({ not_an_expose: 1 }));
+        await client.waitFor(() => client.messages.some((m) => m.topic === "z2m/bridge/logging" && m.payload.includes("not_an_expose")));
+
+        client.end();
+    });
+});
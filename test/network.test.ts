@@ -0,0 +1,151 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { access } from "zigbee-herdsman-converters";
+import type { Expose } from "zigbee-herdsman-converters/lib/types";
+import type { Zigbee2MQTTDevice } from "zigbee2mqtt";
+import { FakeNetwork } from "../src/network.js";
+import { extendedPanIdFromArray } from "../src/zigbee.js";
+import { findExposeByProperty, iterateExposes } from "../src/zigbee2mqtt.js";
+
+describe("FakeNetwork", () => {
+    beforeAll(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(1735689601000);
+    });
+
+    afterAll(() => {
+        vi.useRealTimers();
+    });
+
+    it("keeps bridge payloads consistent", () => {
+        const network = new FakeNetwork(1, 30, 5);
+        const info = network.bridgeInfo();
+        const devices = network.bridgeDevices();
+
+        expect(devices.length).toStrictEqual(31);
+        expect(devices[0]).toBe(network.coordinator);
+        expect(info.coordinator.ieee_address).toStrictEqual(network.coordinator.ieee_address);
+        expect(info.network.channel).toStrictEqual(network.channel);
+        expect(info.network.channel).toStrictEqual(info.config.advanced.channel);
+        expect(info.network.pan_id).toStrictEqual(network.panId);
+        expect(info.network.extended_pan_id).toStrictEqual(network.extendedPanId);
+        expect(extendedPanIdFromArray(network.settings.advanced.ext_pan_id)).toStrictEqual(network.extendedPanId);
+        expect(network.networkKey.length).toStrictEqual(16);
+        expect(Object.keys(info.config.devices)).toStrictEqual(devices.map((d) => d.ieee_address));
+        expect(Object.keys(info.config.groups).map(Number).sort()).toStrictEqual(network.groups.map((g) => g.id).sort());
+        expect(Object.keys(network.bridgeHealth().devices)).toStrictEqual(network.devices.map((d) => d.ieee_address));
+
+        for (const group of network.bridgeGroups()) {
+            for (const member of group.members) {
+                expect(network.getDevice(member.ieee_address)?.endpoints[member.endpoint]).toBeDefined();
+            }
+        }
+    });
+
+    it("keeps network info in sync with options", () => {
+        const network = new FakeNetwork(1, 5, 0);
+
+        expect(network.setOptions({ advanced: { channel: 25, pan_id: 0x1a2b } })).toStrictEqual(true);
+        expect(network.bridgeInfo().network).toMatchObject({ channel: 25, pan_id: 0x1a2b });
+        expect(network.bridgeInfo().config.advanced).toMatchObject({ channel: 25, pan_id: 0x1a2b });
+
+        expect(() => network.setOptions({ advanced: { channel: 30 } })).toThrow("Invalid channel '30', must be in 11..26");
+        expect(() => network.setOptions({ advanced: { pan_id: 0xffff } })).toThrow("Invalid PAN ID '65535', must be in 0x0001..0xfffe");
+        expect(network.bridgeInfo().network).toMatchObject({ channel: 25, pan_id: 0x1a2b });
+        expect(network.channel).toStrictEqual(25);
+    });
+
+    it("derives network map and states from the network", () => {
+        const network = new FakeNetwork(2, 30, 5);
+        const networkMap = network.networkMap(true);
+
+        expect(network.networkMap(true)).toBe(networkMap);
+        expect(networkMap.type).toStrictEqual("raw");
+        expect(networkMap.routes).toStrictEqual(true);
+
+        const plainMap = network.networkMap(false);
+
+        // same topology, routes stripped
+        if (networkMap.type === "raw" && plainMap.type === "raw") {
+            expect(plainMap.routes).toStrictEqual(false);
+            expect(plainMap.value.nodes).toStrictEqual(networkMap.value.nodes);
+            expect(plainMap.value.links).toStrictEqual(networkMap.value.links.map((link) => ({ ...link, routes: [] })));
+        }
+
+        if (networkMap.type === "raw") {
+            for (const node of networkMap.value.nodes) {
+                const device = network.getDevice(node.ieeeAddr);
+
+                expect(device?.network_address).toStrictEqual(node.networkAddress);
+                expect(device?.friendly_name).toStrictEqual(node.friendlyName);
+            }
+        }
+
+        const device = network.devices[0];
+        const state = network.entityState(device.friendly_name);
+
+        expect(network.entityState(device.ieee_address)).toBe(state);
+        expect(() => network.entityState(network.coordinator.ieee_address)).toThrow(`Unknown device ${network.coordinator.ieee_address}`);
+
+        const snapshot = network.snapshot();
+
+        expect(snapshot.devices).toStrictEqual(network.bridgeDevices());
+        expect(snapshot.info.coordinator.ieee_address).toStrictEqual(snapshot.devices[0].ieee_address);
+    });
+
+    it("applies set & get validated against exposes", () => {
+        const network = new FakeNetwork(3, 60, 0);
+        const find = (fn: (expose: Expose) => boolean): [Zigbee2MQTTDevice, Expose] => {
+            for (const device of network.devices) {
+                let found: Expose | undefined;
+
+                iterateExposes((device.definition?.exposes ?? []) as Expose[], (expose) => {
+                    if (
+                        !found &&
+                        expose.property &&
+                        findExposeByProperty(device.definition!.exposes as Expose[], expose.property) === expose &&
+                        fn(expose)
+                    ) {
+                        found = expose;
+                    }
+                });
+
+                if (found) {
+                    return [device, found];
+                }
+            }
+
+            throw new Error("No matching expose");
+        };
+
+        const [numericDevice, numeric] = find((e) => e.type === "numeric" && !!(e.access & access.SET) && e.value_max !== undefined);
+        const state = network.setEntityState(numericDevice.friendly_name, { [numeric.property!]: numeric.value_max });
+
+        expect(state[numeric.property!]).toStrictEqual(numeric.value_max);
+        expect(network.entityState(numericDevice.ieee_address)[numeric.property!]).toStrictEqual(numeric.value_max);
+        expect(() => network.setEntityState(numericDevice.friendly_name, { [numeric.property!]: numeric.value_max! + 1 })).toThrow("out of range");
+        expect(() => network.setEntityState(numericDevice.friendly_name, { not_an_expose: 1 })).toThrow("No converter available for 'not_an_expose'");
+
+        const [binaryDevice, binary] = find((e) => e.type === "binary" && !!(e.access & access.SET) && e.value_toggle !== undefined);
+
+        network.setEntityState(binaryDevice.ieee_address, { [binary.property!]: binary.value_on });
+
+        expect(network.setEntityState(binaryDevice.ieee_address, { [binary.property!]: binary.value_toggle })[binary.property!]).toStrictEqual(
+            binary.value_off,
+        );
+
+        const [enumDevice, enumExpose] = find((e) => e.type === "enum" && !!(e.access & access.SET));
+
+        expect(() => network.setEntityState(enumDevice.ieee_address, { [enumExpose.property!]: "not a value" })).toThrow("expected one of");
+
+        const [readOnlyDevice, readOnly] = find((e) => e.access === access.STATE);
+
+        expect(() => network.setEntityState(readOnlyDevice.ieee_address, { [readOnly.property!]: 1 })).toThrow("is not writable");
+        expect(() => network.getEntityState(readOnlyDevice.ieee_address, [readOnly.property!])).toThrow("is not readable");
+
+        const [readableDevice, readable] = find((e) => !!(e.access & access.GET));
+
+        expect(network.getEntityState(readableDevice.ieee_address, [readable.property!])).toStrictEqual(
+            network.entityState(readableDevice.ieee_address),
+        );
+    });
+});
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import Rng, { type RngAlgorithm } from "../src/rng.js";
+
+describe("Rng", () => {
+    it("keeps producing the same stream for a seed", () => {
+        const r = new Rng(1);
+
+        expect(Array.from({ length: 5 }, () => r.int(0, 1_000_000))).toStrictEqual([627074, 2735, 527447, 981051, 968378]);
+    });
+
+    it("keeps producing the same stream for a seed & algorithm (golden vectors)", () => {
+        const vectors: [RngAlgorithm, number | string, number[]][] = [
+            ["mulberry32", 1, [2693262067, 11749833, 2265367787, 4213581821, 4159151403]],
+            ["mulberry32", "zigbee", [681272130, 507583180, 1845840691, 4188512987, 1617731783]],
+            ["xoshiro128**", 1, [393288148, 2174103013, 3814759091, 2092745082, 1865176206]],
+            ["xoshiro128**", "zigbee", [3869189934, 3924223777, 3070826954, 3036608965, 2871706507]],
+            ["sfc32", 1, [192526458, 1129104086, 3889915445, 576789716, 2708215470]],
+            ["sfc32", "zigbee", [1669755360, 2509687449, 1267071505, 1570984646, 4192708520]],
+            ["pcg32", 1, [415262397, 2943571367, 1799191081, 820693663, 112598584]],
+            ["pcg32", "zigbee", [553968466, 839978867, 1360471793, 52263975, 347808402]],
+        ];
+
+        for (const [algorithm, seed, expected] of vectors) {
+            const r = new Rng(seed, algorithm);
+
+            expect(
+                Array.from({ length: 5 }, () => r.uint32()),
+                `${algorithm} ${seed}`,
+            ).toStrictEqual(expected);
+        }
+    });
+
+    it("matches reference implementations", () => {
+        const xoshiro = new Rng(1, "xoshiro128**");
+
+        xoshiro.setState({ algorithm: "xoshiro128**", seed: 1, state: [1, 2, 3, 4] });
+
+        expect(Array.from({ length: 3 }, () => xoshiro.uint32())).toStrictEqual([11520, 0, 5927040]);
+
+        // pcg32_srandom_r(42, 54)
+        const mask = (1n << 64n) - 1n;
+        const multiplier = 6364136223846793005n;
+        const inc = (54n << 1n) | 1n;
+        let state = (0n * multiplier + inc) & mask;
+        state = (state + 42n) & mask;
+        state = (state * multiplier + inc) & mask;
+        const pcg = new Rng(1, "pcg32");
+
+        pcg.setState({ algorithm: "pcg32", seed: 1, state: [Number(state >> 32n), Number(state & 0xffffffffn), 0, Number(inc)] });
+
+        expect(Array.from({ length: 6 }, () => pcg.uint32())).toStrictEqual([0xa15c02b7, 0x7b47f409, 0xba1d3330, 0x83d2f293, 0xbfa4784b, 0xcbed606e]);
+    });
+
+    it("seeds from strings", () => {
+        expect(new Rng("abc").float()).toStrictEqual(new Rng("abc").float());
+        expect(new Rng("abc").float()).not.toStrictEqual(new Rng("abd").float());
+        expect(new Rng("abc", "sfc32").getState().seed).toStrictEqual("abc");
+        expect(() => new Rng(1, "nope" as RngAlgorithm)).toThrow("Unknown Rng algorithm nope");
+    });
+
+    it("snapshots and restores state", () => {
+        const r = new Rng(42);
+
+        r.float();
+        r.float();
+
+        const state = r.getState();
+        const expected = Array.from({ length: 10 }, () => r.float());
+
+        expect(JSON.parse(JSON.stringify(state))).toStrictEqual(state);
+
+        r.setState(state);
+
+        expect(Array.from({ length: 10 }, () => r.float())).toStrictEqual(expected);
+        expect(() => new Rng(43).setState(state)).toThrow("Invalid state for Rng mulberry32 with seed 43");
+    });
+
+    it("clones independently", () => {
+        const r = new Rng(7);
+
+        r.int(0, 10);
+
+        const clone = r.clone();
+        const expected = Array.from({ length: 10 }, () => r.float());
+
+        expect(Array.from({ length: 10 }, () => clone.float())).toStrictEqual(expected);
+
+        // advancing clone does not affect original
+        clone.float();
+
+        expect(clone.getState()).not.toStrictEqual(r.getState());
+    });
+
+    it("forks stable sub-streams by label", () => {
+        const r = new Rng(3);
+        const forkA = r.fork("0x00158d0001234567");
+
+        for (let i = 0; i < 100; i++) {
+            r.float();
+        }
+
+        const forkB = r.fork("0x00158d0001234567");
+
+        expect(Array.from({ length: 10 }, () => forkA.float())).toStrictEqual(Array.from({ length: 10 }, () => forkB.float()));
+        expect(r.fork("a").float()).not.toStrictEqual(r.fork("b").float());
+        expect(new Rng(4).fork("a").float()).not.toStrictEqual(r.fork("a").float());
+        expect(r.fork("a").fork("b").float()).toStrictEqual(new Rng(3).fork("a").fork("b").float());
+    });
+
+    it("forks distinct streams for ambiguous seeds & labels", () => {
+        const stream = (rng: Rng) => Array.from({ length: 4 }, () => rng.uint32());
+
+        expect(stream(new Rng(42).fork("x"))).not.toStrictEqual(stream(new Rng("42").fork("x")));
+        expect(stream(new Rng(42).fork("a/b"))).not.toStrictEqual(stream(new Rng(42).fork("a").fork("b")));
+        expect(stream(new Rng("4").fork("2/x"))).not.toStrictEqual(stream(new Rng("4/2").fork("x")));
+    });
+
+    it("picks with weights", () => {
+        const r = new Rng(5);
+        const counts = { a: 0, b: 0, c: 0 };
+
+        for (let i = 0; i < 10_000; i++) {
+            counts[
+                r.weightedPick([
+                    ["a", 7],
+                    ["b", 3],
+                    ["c", 0],
+                ] as const)
+            ]++;
+        }
+
+        expect(counts.a).toBeGreaterThan(6_700);
+        expect(counts.a).toBeLessThan(7_300);
+        expect(counts.c).toStrictEqual(0);
+        expect(() => r.weightedPick([["a", 0]])).toThrow("Cannot pick without positive weights");
+        expect(() => r.weightedPick([["a", -1]])).toThrow("Invalid negative weight -1");
+    });
+
+    it("shuffles and samples without replacement", () => {
+        const r = new Rng(6);
+        const arr = Array.from({ length: 20 }, (_v, i) => i);
+        const shuffled = r.shuffle(arr);
+
+        expect(shuffled).not.toStrictEqual(arr);
+        expect([...shuffled].sort((a, b) => a - b)).toStrictEqual(arr);
+
+        const sample = r.sample(arr, 5);
+
+        expect(sample.length).toStrictEqual(5);
+        expect(new Set(sample).size).toStrictEqual(5);
+        expect(r.sample(arr, 0)).toStrictEqual([]);
+        expect(() => r.sample(arr, 21)).toThrow("Cannot sample 21 from 20 elements");
+    });
+
+    it("draws from distributions", () => {
+        const r = new Rng(7);
+        const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+        const gaussians = Array.from({ length: 10_000 }, () => r.gaussian(20, 2));
+        const exponentials = Array.from({ length: 10_000 }, () => r.exponential(5));
+        const poissons = Array.from({ length: 10_000 }, () => r.poisson(3));
+        const largePoissons = Array.from({ length: 10_000 }, () => r.poisson(100));
+
+        expect(mean(gaussians)).toBeCloseTo(20, 1);
+        expect(gaussians.filter((v) => Math.abs(v - 20) > 4).length).toBeLessThan(600);
+        expect(mean(exponentials)).toBeCloseTo(5, 0);
+        expect(exponentials.every((v) => v >= 0)).toStrictEqual(true);
+        expect(mean(poissons)).toBeCloseTo(3, 1);
+        expect(poissons.every(Number.isInteger)).toStrictEqual(true);
+        expect(mean(largePoissons)).toBeCloseTo(100, 0);
+    });
+
+    it("generates bytes & hex", () => {
+        const r = new Rng(8);
+
+        expect(r.bytes(16).length).toStrictEqual(16);
+
+        for (let i = 0; i < 1000; i++) {
+            expect(r.hex(1)).toMatch(/^[1-9a-e]$/);
+        }
+    });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { parseScenario, type Scenario, scenarioNetwork } from "../src/scenario.js";
+
+const SCENARIO: Scenario = {
+    seed: 42,
+    time: 1735689601000,
+    coordinator: { adapter: "ember", channel: 15, panId: 0x1a62 },
+    groups: [
+        { friendlyName: "living_room" },
+        { friendlyName: "hallway", id: 10, members: ["hallway_plug", { device: "hallway_sensor", endpoint: 1 }] },
+    ],
+    devices: [
+        { count: 12, vendor: "IKEA", exposes: ["light"], groups: ["living_room"] },
+        { count: 3, model: "WSDCGQ11LM", powerSource: "Battery" },
+        { model: "WSDCGQ11LM", friendlyName: "hallway_sensor", overrides: { description: "By the door", ieee_address: "0x00158d0001234567" } },
+        { model: "ZNCZ04LM", type: "Router", friendlyName: "hallway_plug", state: { state: "ON", power: 0 } },
+        { count: 20, type: "Router", interviewFailureRate: 0.4 },
+        { count: 20, exposes: ["contact"], interviewFailureRate: 0.5 },
+    ],
+};
+
+describe("Scenario", () => {
+    it("generates a network from a scenario", () => {
+        const network = scenarioNetwork(SCENARIO);
+        const info = network.bridgeInfo();
+        const livingRoom = network.getGroup("living_room")!;
+        const hallway = network.getGroup("hallway")!;
+
+        expect(network.devices.length).toStrictEqual(57);
+        expect(info.config.serial.adapter).toStrictEqual("ember");
+        expect(info.coordinator.type).toStrictEqual("EmberZNet");
+        expect(info.network).toMatchObject({ channel: 15, pan_id: 0x1a62 });
+        expect(info.config.advanced).toMatchObject({ channel: 15, pan_id: 0x1a62 });
+
+        const ikea = network.devices.slice(0, 12);
+
+        for (const device of ikea) {
+            expect(device.manufacturer).toStrictEqual("IKEA");
+            expect(device.definition!.exposes.some((e) => e.type === "light")).toStrictEqual(true);
+        }
+        expect(livingRoom.members.map((m) => m.ieee_address)).toStrictEqual(ikea.map((d) => d.ieee_address));
+
+        for (const device of network.devices.slice(12, 15)) {
+            expect(device).toMatchObject({ model_id: "WSDCGQ11LM", power_source: "Battery" });
+        }
+
+        expect(network.getDevice("hallway_sensor")).toMatchObject({ ieee_address: "0x00158d0001234567", description: "By the door" });
+        expect(network.getDevice("hallway_plug")).toMatchObject({ type: "Router", model_id: "ZNCZ04LM" });
+        expect(network.entityState("hallway_plug")).toMatchObject({ state: "ON", power: 0 });
+        expect(hallway.id).toStrictEqual(10);
+        expect(hallway.members.map((m) => m.ieee_address)).toStrictEqual([network.getDevice("hallway_plug")!.ieee_address, "0x00158d0001234567"]);
+
+        const routers = network.devices.slice(17, 37);
+        const failed = routers.filter((d) => d.interview_state === "FAILED");
+
+        expect(routers.every((d) => d.type === "Router")).toStrictEqual(true);
+        expect(failed.length).toBeGreaterThan(2);
+        expect(failed.length).toBeLessThan(15);
+        expect(failed.every((d) => !d.interview_completed)).toStrictEqual(true);
+
+        const interviewed = network.devices.slice(17);
+
+        // definition & type follow the interview result
+        for (const device of interviewed) {
+            if (device.interview_state === "FAILED") {
+                expect(device).toMatchObject({ definition: undefined, supported: false });
+            } else {
+                expect(device.interview_state).toStrictEqual("SUCCESSFUL");
+                expect(device.definition!.exposes.length).toBeGreaterThan(0);
+                expect(device.type).not.toStrictEqual("Unknown");
+            }
+        }
+
+        expect(interviewed.slice(20).some((d) => d.interview_state === "FAILED")).toStrictEqual(true);
+        expect(interviewed.slice(20).some((d) => d.interview_state === "SUCCESSFUL")).toStrictEqual(true);
+
+        // deterministic
+        expect(scenarioNetwork(parseScenario(JSON.stringify(SCENARIO))).snapshot()).toStrictEqual(network.snapshot());
+    });
+
+    it("validates scenario", () => {
+        expect(() =>
+            scenarioNetwork({
+                groups: [{ friendlyName: "a", members: ["nope", "renamed"] }],
+                devices: [
+                    { model: "not-a-model" },
+                    { vendor: "not-a-vendor" },
+                    { count: 0, groups: ["b"] },
+                    { count: 2, friendlyName: "x", interviewFailureRate: 2 },
+                    { friendlyName: "x_1" },
+                    { model: "WSDCGQ11LM", type: "Router" },
+                    { type: "EndDevice", vendor: "IKEA", exposes: ["light"] },
+                    { overrides: { friendly_name: "renamed" } },
+                    { friendlyName: "renamed" },
+                    { count: 2, overrides: { friendly_name: "twice" } },
+                ],
+            }),
+        ).toThrow(`Invalid scenario:
+- devices[0]: unknown model 'not-a-model'
+- devices[1]: no definition matches {"vendor":"not-a-vendor"}
+- devices[2]: invalid count '0'
+- devices[2]: group 'b' is not defined
+- devices[3]: invalid interviewFailureRate '2', must be in 0..1
+- devices[4]: friendly name 'x_1' is already in use
+- devices[5]: model 'WSDCGQ11LM' does not support device type Router
+- devices[6]: no definition matches {"type":"EndDevice","vendor":"IKEA","exposes":["light"]}
+- devices[8]: friendly name 'renamed' is already in use
+- devices[9]: friendly name 'twice' is already in use
+- groups[0]: member 'nope' is not a scenario device`);
+        expect(
+            scenarioNetwork({
+                groups: [{ friendlyName: "a", members: ["renamed"] }],
+                devices: [{ friendlyName: "x", overrides: { friendly_name: "renamed" } }],
+            }).getGroup("a")!.members.length,
+        ).toStrictEqual(1);
+        expect(() => scenarioNetwork({ coordinator: { channel: 30 } })).toThrow("Invalid channel '30', must be in 11..26");
+        expect(() => parseScenario("[]")).toThrow("Invalid scenario, expected an object");
+    });
+});
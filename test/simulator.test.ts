@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import { FakeNetwork } from "../src/network.js";
+import { Simulator } from "../src/simulator.js";
+
+const START_TIME = 1735689601000;
+
+describe("Simulator", () => {
+    it("emits a deterministic ordered stream", () => {
+        const simulator1 = new Simulator(new FakeNetwork(1, 20, 2), 5, { startTime: START_TIME, availabilityInterval: 600_000 });
+        const simulator2 = new Simulator(new FakeNetwork(1, 20, 2), 5, { startTime: START_TIME, availabilityInterval: 600_000 });
+        const messages1 = simulator1.advance(24 * 3600_000);
+        const messages2 = simulator2.advance(24 * 3600_000);
+
+        expect(messages1.length).toBeGreaterThan(100);
+        expect(JSON.stringify(messages1)).toStrictEqual(JSON.stringify(messages2));
+        expect(simulator1.now).toStrictEqual(START_TIME + 24 * 3600_000);
+
+        for (let i = 1; i < messages1.length; i++) {
+            expect(messages1[i].timestamp).toBeGreaterThanOrEqual(messages1[i - 1].timestamp);
+        }
+
+        const topics = new Set(messages1.map((m) => m.topic));
+
+        expect(topics.has("bridge/health")).toStrictEqual(true);
+        expect(topics.has("bridge/logging")).toStrictEqual(true);
+        expect(topics.has("bridge/event")).toStrictEqual(true);
+        expect([...topics].some((t) => t.endsWith("/availability"))).toStrictEqual(true);
+    });
+
+    it("steps through virtual time", () => {
+        const network = new FakeNetwork(2, 10, 1);
+        const simulator = new Simulator(network, 1, { startTime: START_TIME, healthInterval: 60_000 });
+        const initial = simulator.initialMessages();
+
+        expect(initial.slice(0, 4).map((m) => m.topic)).toStrictEqual(["bridge/state", "bridge/info", "bridge/devices", "bridge/groups"]);
+        expect(initial.every((m) => m.timestamp === START_TIME)).toStrictEqual(true);
+
+        const first = simulator.next();
+
+        expect(simulator.now).toStrictEqual(first.timestamp);
+        expect(simulator.advance(0)).toStrictEqual([]);
+
+        const health = simulator.advance(10 * 60_000).filter((m) => m.topic === "bridge/health");
+
+        expect(health.map((m) => m.timestamp)).toStrictEqual(Array.from({ length: 10 }, (_, i) => START_TIME + (i + 1) * 60_000));
+        expect(health.map((m) => (m.payload as { response_time: number }).response_time)).toStrictEqual(health.map((m) => m.timestamp));
+    });
+
+    it("reports states within configured reporting intervals", () => {
+        const network = new FakeNetwork(3, 15, 1);
+        // no availability flips, offline devices skip reports
+        const simulator = new Simulator(network, 1, { startTime: START_TIME, availabilityInterval: 0, defaultReportInterval: [100, 200] });
+        const messages = simulator.advance(12 * 3600_000);
+
+        for (const device of network.devices) {
+            const reports = messages.filter((m) => m.topic === device.friendly_name);
+
+            if (device.disabled) {
+                expect(reports).toStrictEqual([]);
+                continue;
+            }
+
+            const reportings = Object.values(device.endpoints).flatMap((ep) => ep.configured_reportings);
+            const min = reportings.length > 0 ? Math.min(...reportings.map((rp) => rp.minimum_report_interval)) : 100;
+            const max = reportings.length > 0 ? Math.min(...reportings.map((rp) => rp.maximum_report_interval)) : 200;
+
+            expect(reports.length).toBeGreaterThan(0);
+
+            for (let i = 1; i < reports.length; i++) {
+                const interval = (reports[i].timestamp - reports[i - 1].timestamp) / 1000;
+
+                expect(interval).toBeGreaterThanOrEqual(Math.max(1, Math.min(min, max)));
+                expect(interval).toBeLessThanOrEqual(max);
+            }
+
+            const last = reports.at(-1)!;
+
+            expect(last.payload).toStrictEqual(network.entityState(device.ieee_address));
+            expect((last.payload as { last_seen: string }).last_seen).toStrictEqual(new Date(last.timestamp).toISOString());
+        }
+    });
+
+    it("stays silent for offline devices", () => {
+        const network = new FakeNetwork(1, 20, 2);
+        const simulator = new Simulator(network, 5, { startTime: START_TIME, availabilityInterval: 600_000, eventInterval: 60_000 });
+        const offline = new Set<string>();
+        let checked = 0;
+
+        for (const message of simulator.advance(24 * 3600_000)) {
+            if (message.topic.endsWith("/availability")) {
+                const name = message.topic.slice(0, -"/availability".length);
+                const { state } = message.payload as { state: string };
+
+                if (state === "offline") {
+                    offline.add(name);
+                } else {
+                    offline.delete(name);
+                }
+            } else if (message.topic === "bridge/event") {
+                expect(offline.has((message.payload as { data: { friendly_name: string } }).data.friendly_name)).toStrictEqual(false);
+            } else if (message.topic === "bridge/health") {
+                const ieees = Object.keys((message.payload as { devices: Record<string, unknown> }).devices);
+
+                expect(ieees.some((ieee) => offline.has(network.getDevice(ieee)!.friendly_name))).toStrictEqual(false);
+            } else if (!message.topic.startsWith("bridge/")) {
+                expect(offline.has(message.topic)).toStrictEqual(false);
+                checked++;
+            }
+        }
+
+        expect(checked).toBeGreaterThan(0);
+    });
+
+    it("schedules devices joining after start", () => {
+        const network = new FakeNetwork(1, 2, 0);
+        const simulator = new Simulator(network, 1, { startTime: START_TIME, availabilityInterval: 600_000, healthInterval: 60_000 });
+
+        simulator.advance(3600_000);
+
+        const device = network.addDevice("Router");
+        const messages = simulator.advance(24 * 3600_000);
+        const joinedAt = START_TIME + 3600_000;
+
+        expect(messages.some((m) => m.topic === device.friendly_name && m.timestamp > joinedAt)).toStrictEqual(true);
+        expect(messages.some((m) => m.topic === `${device.friendly_name}/availability`)).toStrictEqual(true);
+        expect(
+            messages.some((m) => m.topic === "bridge/health" && device.ieee_address in (m.payload as { devices: Record<string, unknown> }).devices),
+        ).toStrictEqual(true);
+    });
+
+    it("handles a network without devices", () => {
+        const simulator = new Simulator(new FakeNetwork(1, 0, 0), 1, { startTime: START_TIME, eventInterval: 60_000 });
+        const messages = simulator.advance(3600_000);
+
+        expect(messages.some((m) => m.topic === "bridge/logging")).toStrictEqual(true);
+        expect(messages.some((m) => m.topic === "bridge/event")).toStrictEqual(false);
+    });
+
+    it("rejects non-positive intervals", () => {
+        const network = new FakeNetwork(1, 2, 0);
+
+        expect(() => new Simulator(network, 1, { loggingInterval: 0 })).toThrow("Invalid logging interval 0, must be greater than 0");
+        expect(() => new Simulator(network, 1, { eventInterval: -1 })).toThrow("Invalid event interval -1, must be greater than 0");
+        expect(() => new Simulator(network, 1, { healthInterval: 0 })).toThrow("Invalid health interval 0, must be greater than 0");
+        expect(() => new Simulator(network, 1, { availabilityInterval: -1 })).toThrow(
+            "Invalid availability interval -1, must be greater than or equal to 0",
+        );
+        expect(() => new Simulator(network, 1, { defaultReportInterval: [0, 10] })).toThrow(
+            "Invalid default report interval [0, 10], must be greater than 0 and ordered",
+        );
+        expect(() => new Simulator(network, 1, { defaultReportInterval: [10, 5] })).toThrow(
+            "Invalid default report interval [10, 5], must be greater than 0 and ordered",
+        );
+    });
+});
@@ -0,0 +1,200 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { GP_ENDPOINT, GP_PROFILE_ID, HA_PROFILE_ID } from "zigbee-herdsman/dist/zspec/consts.js";
+import { BuffaloZdo } from "zigbee-herdsman/dist/zspec/zdo/buffaloZdo.js";
+import { ClusterId as ZdoClusterId } from "zigbee-herdsman/dist/zspec/zdo/definition/clusters.js";
+import { Status as ZdoStatus } from "zigbee-herdsman/dist/zspec/zdo/definition/status.js";
+import type { ResponseMap } from "zigbee-herdsman/dist/zspec/zdo/definition/tstypes.js";
+import Rng from "../src/rng.js";
+import {
+    addressResponse,
+    deviceDescriptors,
+    encodeZdoResponse,
+    endDeviceAnnounce,
+    lqiTableEntries,
+    lqiTableResponse,
+    nodeDescriptor,
+    powerDescriptor,
+    routingTableEntries,
+    routingTableResponse,
+    simpleDescriptor,
+    topologyAddresses,
+    type ZdoEncodableClusterId,
+} from "../src/zdo.js";
+import { extendedPanId, routingTables, topology, ZigbeeRelationship, type ZigbeeTopologyNodeType } from "../src/zigbee.js";
+import { Zigbee2MQTTAPIFaker } from "../src/zigbee2mqtt.js";
+
+/** Cluster ID with a response for it */
+type EncodableResponse = { [K in ZdoEncodableClusterId]: [K, ResponseMap[K]] }[ZdoEncodableClusterId];
+
+const roundTrip = <K extends ZdoEncodableClusterId>(clusterId: K, response: ResponseMap[K]) => {
+    const buffer = encodeZdoResponse(clusterId, response, 42);
+
+    expect(buffer[0]).toStrictEqual(42);
+
+    return BuffaloZdo.readResponse<ZdoEncodableClusterId>(true, clusterId, buffer);
+};
+
+describe("ZDO", () => {
+    beforeAll(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(1735689601000);
+    });
+
+    afterAll(() => {
+        vi.useRealTimers();
+    });
+
+    it("generates descriptors", () => {
+        const r = new Rng(1);
+        const coordinator = nodeDescriptor(r, 0x0000, "Coordinator", 0x1234);
+        const endDevice = nodeDescriptor(r, 0x1234, "EndDevice");
+
+        expect(coordinator).toMatchObject({ logicalType: 0, manufacturerCode: 0x1234, frequencyBand: 0b01000 });
+        expect(coordinator.serverMask).toMatchObject({ primaryTrustCenter: 1, networkManager: 1 });
+        expect(coordinator.capabilities).toMatchObject({ deviceType: 1, powerSource: 1, rxOnWhenIdle: 1 });
+        expect(endDevice).toMatchObject({ logicalType: 2, nwkAddress: 0x1234 });
+        expect(endDevice.capabilities).toMatchObject({ deviceType: 0, powerSource: 0, rxOnWhenIdle: 0 });
+        expect(powerDescriptor(r, 0x1234, true)).toStrictEqual({
+            nwkAddress: 0x1234,
+            currentPowerMode: 0,
+            availPowerSources: 0b0001,
+            currentPowerSource: 0b0001,
+            currentPowerSourceLevel: 0b1100,
+        });
+        expect(powerDescriptor(r, 0x1234, false).currentPowerSource).not.toStrictEqual(0b0001);
+        expect(simpleDescriptor(r, 0x1234, 1, [0, 3, 6], [25])).toMatchObject({ length: 16, profileId: HA_PROFILE_ID, inClusterList: [0, 3, 6] });
+        expect(simpleDescriptor(r, 0x1234, GP_ENDPOINT, [], [33])).toMatchObject({ profileId: GP_PROFILE_ID, deviceId: 0x0061 });
+        expect(nodeDescriptor(new Rng(3), 1, "Router")).toStrictEqual(nodeDescriptor(new Rng(3), 1, "Router"));
+    });
+
+    it("generates descriptors of a device", () => {
+        const r = new Rng(1);
+        const device = new Zigbee2MQTTAPIFaker(1).device("Router", "8718699673147");
+        const descriptors = deviceDescriptors(r, device);
+
+        expect(descriptors.nodeDescriptor.nwkAddress).toStrictEqual(device.network_address);
+        expect(descriptors.nodeDescriptor.logicalType).toStrictEqual(1);
+        expect(descriptors.powerDescriptor.currentPowerSource).toStrictEqual(0b0001);
+        expect(descriptors.activeEndpoints.endpointList).toStrictEqual(Object.keys(device.endpoints).map(Number));
+        expect(descriptors.simpleDescriptors.map((d) => d.endpoint)).toStrictEqual(descriptors.activeEndpoints.endpointList);
+        // genBasic, genOnOff
+        expect(descriptors.simpleDescriptors[0].inClusterList).toContain(0x0000);
+        expect(descriptors.simpleDescriptors[0].inClusterList).toContain(0x0006);
+    });
+
+    it("builds neighbor & routing tables from a topology", () => {
+        const r = new Rng(1);
+        const types: ZigbeeTopologyNodeType[] = ["Coordinator"];
+
+        for (let i = 0; i < 40; i++) {
+            types.push(r.bool(0.4) ? "Router" : "EndDevice");
+        }
+
+        const topo = topology(r, types);
+        const tables = routingTables(r, topo);
+        const addresses = topologyAddresses(r, topo);
+        const extPanId = extendedPanId(r);
+
+        expect(addresses[0].nwkAddress).toStrictEqual(0x0000);
+        expect(new Set(addresses.map((a) => a.nwkAddress)).size).toStrictEqual(addresses.length);
+
+        const entries = lqiTableEntries(r, topo, addresses, 0, extPanId);
+
+        expect(entries.length).toStrictEqual(topo.nodes[0].neighbors.length);
+
+        for (const [i, entry] of entries.entries()) {
+            const neighbor = topo.nodes[0].neighbors[i];
+
+            expect(entry.nwkAddress).toStrictEqual(addresses[neighbor.index].nwkAddress);
+            // coordinator is the parent of its children, sibling of none
+            expect(entry.relationship).toStrictEqual(ZigbeeRelationship.NeighborIsAChild);
+            expect(entry.deviceType).toStrictEqual(topo.nodes[neighbor.index].type === "Router" ? 1 : 2);
+            expect(entry.depth).toStrictEqual(1);
+            expect(entry.lqi).toStrictEqual(neighbor.lqi);
+        }
+
+        const pages = [];
+
+        for (let startIndex = 0; startIndex < entries.length; startIndex += 3) {
+            pages.push(lqiTableResponse(entries, startIndex));
+        }
+
+        expect(pages.flatMap((page) => page.entryList)).toStrictEqual(entries);
+        expect(pages.every((page) => page.neighborTableEntries === entries.length && page.entryList.length <= 3)).toStrictEqual(true);
+
+        const routerIndex = types.indexOf("Router");
+        const routes = routingTableEntries(tables[routerIndex], addresses);
+
+        expect(routes.length).toStrictEqual(tables[routerIndex].length);
+        expect(routes.find((route) => route.manyToOne === 1)?.destinationAddress).toStrictEqual(0x0000);
+        expect(routingTableResponse(routes, 1, 2)).toStrictEqual({
+            routingTableEntries: routes.length,
+            startIndex: 1,
+            entryList: routes.slice(1, 3),
+        });
+    });
+
+    it("encodes responses that decode back", () => {
+        const r = new Rng(1);
+        const topo = topology(r, ["Coordinator", "Router", "Router", "EndDevice", "EndDevice", "Router"]);
+        const addresses = topologyAddresses(r, topo);
+        const lqiTable = lqiTableResponse(lqiTableEntries(r, topo, addresses, 1, extendedPanId(r)));
+        const routingTable = routingTableResponse(routingTableEntries(routingTables(r, topo)[1], addresses));
+
+        for (const descriptor of [nodeDescriptor(r, 0, "Coordinator"), nodeDescriptor(r, 0x1234, "EndDevice")]) {
+            expect(roundTrip(ZdoClusterId.NODE_DESCRIPTOR_RESPONSE, [ZdoStatus.SUCCESS, descriptor])).toStrictEqual([ZdoStatus.SUCCESS, descriptor]);
+        }
+
+        const responses: EncodableResponse[] = [
+            [
+                ZdoClusterId.NETWORK_ADDRESS_RESPONSE,
+                [ZdoStatus.SUCCESS, addressResponse(addresses[1], [addresses[3].nwkAddress, addresses[4].nwkAddress], 0)],
+            ],
+            [ZdoClusterId.IEEE_ADDRESS_RESPONSE, [ZdoStatus.SUCCESS, addressResponse(addresses[2])]],
+            [ZdoClusterId.POWER_DESCRIPTOR_RESPONSE, [ZdoStatus.SUCCESS, powerDescriptor(r, 0x1234, false)]],
+            [ZdoClusterId.SIMPLE_DESCRIPTOR_RESPONSE, [ZdoStatus.SUCCESS, simpleDescriptor(r, 0x1234, 1, [0, 3, 6, 8], [25])]],
+            [ZdoClusterId.ACTIVE_ENDPOINTS_RESPONSE, [ZdoStatus.SUCCESS, { nwkAddress: 0x1234, endpointList: [1, 2, 242] }]],
+            [ZdoClusterId.LQI_TABLE_RESPONSE, [ZdoStatus.SUCCESS, lqiTable]],
+            [ZdoClusterId.ROUTING_TABLE_RESPONSE, [ZdoStatus.SUCCESS, routingTable]],
+        ];
+
+        for (const [clusterId, response] of responses) {
+            expect(roundTrip(clusterId, response)).toStrictEqual(response);
+        }
+
+        // whole neighbor table of a busy router in a single page, past 256 bytes
+        const neighbors = Array.from({ length: 16 }, (_, i) => ({ ...lqiTable.entryList[0], nwkAddress: 0x1000 + i }));
+        const fullTable = lqiTableResponse(neighbors, 0, neighbors.length);
+
+        expect(roundTrip(ZdoClusterId.LQI_TABLE_RESPONSE, [ZdoStatus.SUCCESS, fullTable])).toStrictEqual([ZdoStatus.SUCCESS, fullTable]);
+
+        const clusters = (count: number) => Array.from({ length: count }, (_, i) => 0xfc00 + i);
+        const largest = simpleDescriptor(r, 0x1234, 1, clusters(60), clusters(63));
+
+        expect(largest.length).toStrictEqual(254);
+        expect(roundTrip(ZdoClusterId.SIMPLE_DESCRIPTOR_RESPONSE, [ZdoStatus.SUCCESS, largest])).toStrictEqual([ZdoStatus.SUCCESS, largest]);
+        expect(() =>
+            encodeZdoResponse(ZdoClusterId.SIMPLE_DESCRIPTOR_RESPONSE, [
+                ZdoStatus.SUCCESS,
+                simpleDescriptor(r, 0x1234, 1, clusters(70), clusters(70)),
+            ]),
+        ).toThrow("Simple descriptor of endpoint 1 too long (288 bytes), must be <= 255");
+        expect(() => encodeZdoResponse(ZdoClusterId.LQI_TABLE_RESPONSE, [ZdoStatus.SUCCESS, { ...fullTable, neighborTableEntries: 300 }])).toThrow(
+            "Too many neighbor table entries (300), must be <= 255",
+        );
+
+        const announce = endDeviceAnnounce(addresses[3], "EndDevice");
+
+        expect(
+            BuffaloZdo.readResponse(
+                false,
+                ZdoClusterId.END_DEVICE_ANNOUNCE,
+                encodeZdoResponse(ZdoClusterId.END_DEVICE_ANNOUNCE, [ZdoStatus.SUCCESS, announce]),
+            ),
+        ).toStrictEqual([ZdoStatus.SUCCESS, announce]);
+        expect(encodeZdoResponse(ZdoClusterId.ACTIVE_ENDPOINTS_RESPONSE, [ZdoStatus.DEVICE_NOT_FOUND, undefined])).toStrictEqual(Buffer.from([0x81]));
+        expect(() => encodeZdoResponse(ZdoClusterId.POWER_DESCRIPTOR_RESPONSE, [ZdoStatus.SUCCESS, undefined])).toThrow(
+            "Missing payload for ZDO cluster POWER_DESCRIPTOR_RESPONSE",
+        );
+    });
+});
@@ -1,6 +1,16 @@
 import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
 import Rng from "../src/rng.js";
-import { extendedPanId, extendedPanIdFromArray, extendedPanIdToArray } from "../src/zigbee.js";
+import {
+    extendedPanId,
+    extendedPanIdFromArray,
+    extendedPanIdToArray,
+    routingTables,
+    sourceRoutes,
+    topology,
+    topologyPath,
+    ZigbeeRelationship,
+    type ZigbeeTopologyNodeType,
+} from "../src/zigbee.js";
 
 describe("Zigbee", () => {
     beforeAll(() => {
@@ -23,4 +33,124 @@ describe("Zigbee", () => {
         expect(arrayFormat).toStrictEqual([50, 38, 119, 111, 155, 244, 143, 160]);
         expect(extPanId).toStrictEqual(stringFormat);
     });
+
+    it("builds a consistent topology", () => {
+        const r = new Rng(1);
+        const types: ZigbeeTopologyNodeType[] = ["Coordinator"];
+
+        for (let i = 0; i < 150; i++) {
+            types.push(r.bool(0.4) ? "Router" : "EndDevice");
+        }
+
+        const { nodes } = topology(r, types);
+
+        expect(nodes.length).toStrictEqual(types.length);
+        expect(nodes[0]).toMatchObject({ type: "Coordinator", parent: -1, depth: 0 });
+
+        for (let i = 1; i < nodes.length; i++) {
+            const node = nodes[i];
+            const parent = nodes[node.parent];
+
+            expect(parent.type).not.toStrictEqual("EndDevice");
+            expect(node.depth).toStrictEqual(parent.depth + 1);
+            expect(parent.children).toContain(i);
+            expect(parent.neighbors.find((n) => n.index === i)?.relationship).toStrictEqual(ZigbeeRelationship.NeighborIsAChild);
+
+            if (node.type === "EndDevice") {
+                expect(node.neighbors).toStrictEqual([]);
+                expect(nodes.filter((n) => n.children.includes(i)).length).toStrictEqual(1);
+            } else {
+                expect(node.neighbors.find((n) => n.index === node.parent)?.relationship).toStrictEqual(ZigbeeRelationship.NeighborIsParent);
+
+                for (const neighbor of node.neighbors) {
+                    const mirrored = nodes[neighbor.index].neighbors.find((n) => n.index === i);
+
+                    if (neighbor.relationship === ZigbeeRelationship.NeighborIsASibling) {
+                        expect(mirrored?.relationship).toStrictEqual(ZigbeeRelationship.NeighborIsASibling);
+                    } else if (nodes[neighbor.index].type !== "EndDevice") {
+                        expect(mirrored).toBeDefined();
+                    }
+                }
+            }
+        }
+    });
+
+    it("exceeds topology capacity only when exhausted", () => {
+        const r = new Rng(1);
+
+        expect(() => topology(r, ["Router"])).toThrow("exactly one Coordinator");
+        expect(topology(r, ["Coordinator", "EndDevice", "EndDevice", "EndDevice"], { maxChildren: 2 }).nodes[0].children).toStrictEqual([1, 2, 3]);
+
+        const types: ZigbeeTopologyNodeType[] = ["Coordinator", "Router", "Router", ...Array<ZigbeeTopologyNodeType>(20).fill("EndDevice")];
+        const { nodes } = topology(r, types, { maxChildren: 4 });
+        const childCounts = nodes.filter((node) => node.type !== "EndDevice").map((node) => node.children.length);
+
+        expect(nodes.slice(1).every((node) => node.parent !== -1)).toStrictEqual(true);
+        // least loaded picked once over capacity
+        expect(Math.max(...childCounts) - Math.min(...childCounts)).toBeLessThanOrEqual(1);
+        expect(topology(r, ["Coordinator", "Router", "EndDevice"], { maxDepth: 0 }).nodes.map((node) => node.parent)).toStrictEqual([-1, 0, 1]);
+    });
+
+    it("builds routing tables following the topology", () => {
+        const r = new Rng(2);
+        const types: ZigbeeTopologyNodeType[] = ["Coordinator"];
+
+        for (let i = 0; i < 80; i++) {
+            types.push(r.bool(0.4) ? "Router" : "EndDevice");
+        }
+
+        const topo = topology(r, types);
+        const tables = routingTables(r, topo, { failureRate: 0.5 });
+        const statuses = new Set<string>();
+
+        expect(tables.length).toStrictEqual(topo.nodes.length);
+
+        for (let i = 0; i < tables.length; i++) {
+            if (topo.nodes[i].type === "EndDevice") {
+                expect(tables[i]).toStrictEqual([]);
+                continue;
+            }
+
+            if (i !== 0) {
+                expect(tables[i].filter((route) => route.manyToOne)).toStrictEqual([expect.objectContaining({ destination: 0 })]);
+            }
+
+            for (const route of tables[i]) {
+                statuses.add(route.status);
+                // next hop is always a neighbor, and the path from it gets closer to destination
+                expect(topo.nodes[i].neighbors.some((n) => n.index === route.nextHop)).toStrictEqual(true);
+                expect(topologyPath(topo, route.nextHop, route.destination).length).toStrictEqual(
+                    topologyPath(topo, i, route.destination).length - 1,
+                );
+            }
+        }
+
+        expect(statuses.has("ACTIVE")).toStrictEqual(true);
+        expect(statuses.size).toBeGreaterThan(1);
+
+        const records = sourceRoutes(topo);
+
+        expect(records[0]).toStrictEqual([]);
+
+        for (let i = 1; i < records.length; i++) {
+            expect(records[i].length).toStrictEqual(topologyPath(topo, 0, i).length - 2);
+
+            if (topo.nodes[i].type === "EndDevice" && topo.nodes[i].parent !== 0) {
+                expect(records[i].at(-1)).toStrictEqual(topo.nodes[i].parent);
+            }
+        }
+    });
+
+    it("builds routing tables without concentrator or failures", () => {
+        const r = new Rng(3);
+        const topo = topology(r, ["Coordinator", "Router", "Router", "EndDevice", "Router", "EndDevice"]);
+        const tables = routingTables(r, topo, { concentrator: false, failureRate: 0 });
+
+        for (const table of tables) {
+            for (const route of table) {
+                expect(route.manyToOne).toStrictEqual(false);
+                expect(route.status).toStrictEqual("ACTIVE");
+            }
+        }
+    });
 });
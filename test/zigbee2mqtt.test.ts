@@ -1,11 +1,30 @@
+import assert from "node:assert";
 import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { DataType } from "zigbee-herdsman/dist/zspec/zcl/definition/enums.js";
+import { access, Numeric } from "zigbee-herdsman-converters";
+import type { Expose } from "zigbee-herdsman-converters/lib/types";
+import type { Zigbee2MQTTDevice } from "zigbee2mqtt";
+import Rng from "../src/rng.js";
+import { ZigbeeRelationship } from "../src/zigbee.js";
 import {
+    definitionClusters,
+    definitionPower,
+    deviceExposes,
+    type FleetProfileName,
+    findDefinitionByModel,
+    illuminance,
+    iterateExposes,
     listDefinitionExposes,
     listDefinitionExposesCategories,
     listDefinitionModels,
     listDefinitionOptions,
     listGreenPowerDefinitionModels,
+    numericValue,
+    queryDefinitions,
+    reportableAttributes,
     Zigbee2MQTTAPIFaker,
+    zhcDefinitions,
+    zhcGpDefinitions,
 } from "../src/zigbee2mqtt.js";
 
 describe("Zigbee2MQTT", () => {
@@ -23,68 +42,59 @@ describe("Zigbee2MQTT", () => {
         const device = faker.device();
 
         expect(device).toMatchObject({
-            ieee_address: "0xff49b6f772632716",
-            type: "Unknown",
-            network_address: 50267,
+            ieee_address: "0xa08ff49b6f772632",
+            type: "Router",
+            network_address: 33202,
             supported: true,
-            friendly_name: "gamma_1384_terra",
+            friendly_name: "gamma_9137_nova",
             disabled: false,
-            description: undefined,
-            power_source: "Mains (3 phase)",
-            software_build_id: "v1.6.54",
-            date_code: "20240321",
-            model_id: "IM-CDZDGAAA0005KA_MAN",
+            description: "Beta terra ion terra beta aqua luna beta.",
+            power_source: "Mains (single phase)",
+            software_build_id: "v2.1.20",
+            date_code: "20240104",
+            model_id: "RS 225",
             interviewing: false,
             interview_completed: true,
             interview_state: "SUCCESSFUL",
-            manufacturer: "ADEO",
+            manufacturer: "Innr",
         });
         expect(faker.entityState(device)).toStrictEqual({
-            brightness: 135,
-            color: undefined,
-            color_temp: 192,
-            color_temp_startup: 233,
-            effect: "blink",
-            last_seen: "2024-12-31T21:49:25.677Z",
-            linkquality: 183,
+            brightness: 251,
+            effect: "finish_effect",
+            last_seen: "2024-12-31T23:46:16.959Z",
+            linkquality: 71,
             power_on_behavior: "previous",
             state: "ON",
-            x: 21,
-            y: 978,
         });
 
-        const faker2 = new Zigbee2MQTTAPIFaker(9900);
+        const faker2 = new Zigbee2MQTTAPIFaker(9924);
         const device2 = faker2.device();
 
         expect(device2).toMatchObject({
-            ieee_address: "0xfe4d83d33c806029",
-            type: "GreenPower",
-            network_address: 22204,
+            ieee_address: "0x05c99c834f7fa414",
+            type: "EndDevice",
+            network_address: 37126,
             supported: true,
-            friendly_name: "terra 2057 delta",
+            friendly_name: "beta 1362 beta",
             disabled: false,
-            description: "Nova delta omega delta zen terra zen.",
-            power_source: "Unknown",
-            software_build_id: "v2.2.39",
-            date_code: "20220511",
-            model_id: "ZLGP17/ZLGP18",
+            description: undefined,
+            power_source: "Battery",
+            software_build_id: "v2.1.82",
+            date_code: "20231006",
+            model_id: "ZG-101Z/D",
             interviewing: false,
             interview_completed: true,
             interview_state: "SUCCESSFUL",
-            manufacturer: "Legrand",
+            manufacturer: "Tuya",
         });
+        // same device, state stream continues
         expect(faker.entityState(device)).toStrictEqual({
-            brightness: 98,
-            color: undefined,
-            color_temp: 226,
-            color_temp_startup: 166,
+            brightness: 83,
             effect: "blink",
-            last_seen: "2024-12-31T22:40:47.540Z",
-            linkquality: 167,
-            power_on_behavior: "off",
+            last_seen: "2024-12-31T23:34:38.388Z",
+            linkquality: 183,
+            power_on_behavior: "toggle",
             state: "OFF",
-            x: 247,
-            y: 138,
         });
     });
 
@@ -93,52 +103,367 @@ describe("Zigbee2MQTT", () => {
         const device = faker.device("Router", "ZBDongle-E");
 
         expect(device).toMatchObject({
-            ieee_address: "0x08ff49b6f7726327",
+            ieee_address: "0xa08ff49b6f772632",
             type: "Router",
-            network_address: 4415,
+            network_address: 3093,
             model_id: "ZBDongle-E",
             manufacturer: "SONOFF",
         });
         expect(faker.entityState(device)).toStrictEqual({
-            last_seen: "2024-12-31T23:19:48.889Z",
-            light_indicator_level: 140,
-            linkquality: 62,
+            last_seen: "2024-12-23T22:30:21.122Z",
+            light_indicator_level: 58,
+            linkquality: 71,
         });
 
         const faker2 = new Zigbee2MQTTAPIFaker(10);
         const device2 = faker2.device("Router", "E13-N11");
 
         expect(device2).toMatchObject({
-            ieee_address: "0xebc77310fe2667e4",
+            ieee_address: "0x8ebc77310fe2667e",
             type: "Router",
-            network_address: 52957,
+            network_address: 22751,
             model_id: "E13-N11",
             manufacturer: "Sengled",
         });
         expect(faker2.entityState(device2)).toStrictEqual({
-            brightness: 46,
-            last_seen: "2024-12-31T20:27:18.265Z",
-            linkquality: 160,
-            occupancy: true,
+            brightness: 187,
+            last_seen: "2024-12-31T18:57:20.522Z",
+            linkquality: 171,
+            occupancy: false,
             state: "ON",
             update: {
-                installed_version: 138384420,
-                latest_version: 183702098,
+                installed_version: 231654581,
+                latest_version: 231654581,
                 progress: undefined,
                 remaining: undefined,
-                state: "scheduled",
+                state: "idle",
             },
         });
     });
 
+    it("keeps devices and states stable regardless of other generation", () => {
+        const faker1 = new Zigbee2MQTTAPIFaker(1);
+        const faker2 = new Zigbee2MQTTAPIFaker(1);
+
+        faker1.device();
+        // draws differently from the first device of `faker1`
+        faker2.device("Router", "E13-N11");
+
+        const device = faker1.device();
+
+        expect(faker2.device()).toStrictEqual(device);
+
+        // states of other devices drawn before
+        faker2.entityState(faker1.device());
+
+        expect(faker2.entityState(device)).toStrictEqual(faker1.entityState(device));
+    });
+
+    it("generates devices matching criteria", () => {
+        const faker = new Zigbee2MQTTAPIFaker(1);
+
+        for (let i = 0; i < 10; i++) {
+            const device = faker.device({ vendor: "ikea", exposes: ["light"], type: "Router" });
+
+            expect(device.manufacturer).toStrictEqual("IKEA");
+            expect(device.type).toStrictEqual("Router");
+            expect(device.definition!.exposes.some((e) => e.type === "light")).toStrictEqual(true);
+        }
+
+        expect(faker.device({ vendor: "IKEA", model: "ZNCZ04LM" }).model_id).toStrictEqual("ZNCZ04LM");
+        expect(() => faker.device({ vendor: "nope" })).toThrow('No definition matches {"vendor":"nope"}');
+    });
+
+    it("generates fleets following profiles", () => {
+        const apartment = new Zigbee2MQTTAPIFaker(1, { profile: "apartment" }).devices(200);
+        const hasExpose = (device: Zigbee2MQTTDevice, name: string) =>
+            device.definition!.exposes.some((e) => e.type === name || e.name === name || e.features?.some((f) => f.name === name));
+        const lights = apartment.filter((d) => hasExpose(d, "light"));
+        const topVendors = apartment.filter((d) => ["IKEA", "Philips", "Aqara", "SONOFF"].includes(d.manufacturer!));
+
+        expect(lights.length).toBeGreaterThan(70);
+        expect(lights.length).toBeLessThan(110);
+        expect(topVendors.length).toBeGreaterThan(150);
+
+        for (const device of apartment) {
+            if (device.type === "Router" || device.type === "EndDevice") {
+                expect(device.type === "Router" ? device.power_source!.startsWith("Mains") : device.power_source === "Battery").toStrictEqual(true);
+            }
+        }
+
+        expect(lights.filter((d) => d.type === "Router").length).toBeGreaterThan(lights.length * 0.9);
+
+        const commercial = new Zigbee2MQTTAPIFaker(1, { profile: "commercial building" }).snapshot(100, 4);
+
+        expect(commercial.devices.some((d) => d.power_source === "Mains (3 phase)")).toStrictEqual(true);
+        expect(commercial.devices.filter((d) => d.type === "Router").length).toBeGreaterThan(50);
+        expect(() => new Zigbee2MQTTAPIFaker(1, { profile: "castle" as FleetProfileName })).toThrow("Unknown fleet profile 'castle'");
+    });
+
+    it("queries definitions", () => {
+        const occupancy = queryDefinitions({ exposes: ["occupancy"], categories: ["diagnostic"], ota: true });
+
+        expect(occupancy.length).toBeGreaterThan(10);
+
+        for (const definition of occupancy) {
+            const exposes = deviceExposes(definition) as Expose[];
+            const names: string[] = [];
+            const categories: string[] = [];
+
+            iterateExposes(exposes, (expose) => {
+                names.push(expose.name);
+
+                if (expose.category) {
+                    categories.push(expose.category);
+                }
+            });
+
+            expect(names).toContain("occupancy");
+            expect(categories).toContain("diagnostic");
+            expect(definition.ota).toBeTruthy();
+        }
+
+        const multiEndpoint = queryDefinitions({ vendor: "Aqara", endpoints: [2, 10], whitelabel: false, options: true });
+
+        expect(multiEndpoint.length).toBeGreaterThan(0);
+
+        for (const definition of multiEndpoint) {
+            expect(definition.vendor).toStrictEqual("Aqara");
+            expect(definition.endpoint).toBeDefined();
+            expect(definition.whiteLabel?.length ?? 0).toStrictEqual(0);
+            expect(definition.options!.length).toBeGreaterThan(0);
+        }
+
+        expect(queryDefinitions({ exposes: ["climate"] }, zhcGpDefinitions)).toStrictEqual([]);
+        expect(queryDefinitions({}).length).toStrictEqual(zhcDefinitions.length);
+    });
+
+    it("generates nested states for composite and endpoint-specific exposes", () => {
+        const faker = new Zigbee2MQTTAPIFaker(1);
+        const light = faker.entityState(faker.device("Router", "LED1624G9"));
+
+        expect(Object.keys(light.color as object)).toStrictEqual(["x", "y"]);
+        expect(Object.keys(light.level_config as object)).toStrictEqual(["execute_if_off", "current_level_startup"]);
+        expect(light.x).toBeUndefined();
+        expect(light.execute_if_off).toBeUndefined();
+
+        const gangSwitch = faker.entityState(faker.device("Router", "TS0002"));
+
+        expect(["ON", "OFF"]).toContain(gangSwitch.state_l1);
+        expect(["ON", "OFF"]).toContain(gangSwitch.state_l2);
+        expect(gangSwitch.state).toBeUndefined();
+    });
+
+    it("generates physically plausible numeric values", () => {
+        const r = new Rng(1);
+        const draw = (expose: Numeric, count = 500) => Array.from({ length: count }, () => numericValue(r, expose) as number);
+        const temperatures = draw(new Numeric("temperature", access.STATE).withUnit("°C"));
+
+        expect(Math.min(...temperatures)).toBeGreaterThanOrEqual(15);
+        expect(Math.max(...temperatures)).toBeLessThanOrEqual(28);
+
+        const humidities = draw(new Numeric("humidity", access.STATE).withUnit("%"));
+
+        expect(Math.min(...humidities)).toBeGreaterThanOrEqual(30);
+        expect(Math.max(...humidities)).toBeLessThanOrEqual(70);
+
+        const batteries = draw(new Numeric("battery", access.STATE).withUnit("%").withValueMin(0).withValueMax(100));
+
+        expect(batteries.every(Number.isInteger)).toStrictEqual(true);
+        expect(batteries.filter((b) => b >= 50).length).toBeGreaterThan(batteries.length * 0.75);
+
+        const setpoints = draw(
+            new Numeric("occupied_heating_setpoint", access.ALL).withUnit("°C").withValueMin(5).withValueMax(30).withValueStep(0.5),
+        );
+
+        expect(setpoints.every((v) => v >= 15 && v <= 28 && Number.isInteger(v * 2))).toStrictEqual(true);
+
+        // well-known unit, but range outside of profile
+        const calibrations = draw(
+            new Numeric("local_temperature_calibration", access.ALL).withUnit("°C").withValueMin(-5).withValueMax(5).withValueStep(0.1),
+        );
+
+        expect(calibrations.every((v) => v >= -5 && v <= 5)).toStrictEqual(true);
+
+        const bounded = draw(new Numeric("level", access.ALL).withValueMin(10).withValueMax(20));
+
+        expect(new Set(bounded)).toStrictEqual(new Set([10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20]));
+
+        const presets = draw(new Numeric("brightness", access.ALL).withValueMin(0).withValueMax(254).withPreset("max", "max", "Maximum"));
+
+        expect(presets).toContain("max");
+    });
+
+    it("generates illuminance following day/night", () => {
+        const r = new Rng(1);
+        const day = Date.UTC(2025, 5, 1, 12);
+        const night = Date.UTC(2025, 5, 1, 23);
+
+        for (let i = 0; i < 100; i++) {
+            expect(illuminance(r, day)).toBeGreaterThanOrEqual(300);
+            expect(illuminance(r, night)).toBeLessThanOrEqual(10);
+        }
+    });
+
+    it("derives type and power source from definition", () => {
+        const r = new Rng(1);
+
+        for (let i = 0; i < 20; i++) {
+            expect(definitionPower(r, findDefinitionByModel("WSDCGQ11LM")!)).toStrictEqual({ type: "EndDevice", powerSource: "Battery" });
+            expect(definitionPower(r, findDefinitionByModel("LED1545G12")!, 0, "Mains (single phase)")).toStrictEqual({
+                type: "Router",
+                powerSource: "Mains (single phase)",
+            });
+            expect(definitionPower(r, findDefinitionByModel("ZLGP17/ZLGP18")!)).toStrictEqual({ type: "GreenPower", powerSource: "Unknown" });
+        }
+
+        const faker = new Zigbee2MQTTAPIFaker(1);
+
+        for (const device of faker.devices(100)) {
+            const exposes = device.definition!.exposes.map((e) => e.name);
+
+            if (exposes.includes("battery")) {
+                expect(device.power_source).toStrictEqual("Battery");
+                expect(device.type).not.toStrictEqual("Router");
+            }
+        }
+    });
+
+    it("picks definitions agreeing with an explicit type", () => {
+        const faker = new Zigbee2MQTTAPIFaker(1);
+
+        for (let i = 0; i < 50; i++) {
+            expect(faker.device("Router").power_source).not.toStrictEqual("Battery");
+            expect(faker.device("EndDevice").power_source).toStrictEqual("Battery");
+            expect(faker.device({ type: "Router", exposes: ["contact"] }).power_source).not.toStrictEqual("Battery");
+            expect(faker.device({ type: "EndDevice", exposes: ["contact"] }).power_source).toStrictEqual("Battery");
+        }
+
+        expect(faker.device("EndDevice", "WSDCGQ11LM").power_source).toStrictEqual("Battery");
+        expect(faker.device("Router", "ZBDongle-E").power_source).not.toStrictEqual("Battery");
+        expect(() => faker.device("Router", "WSDCGQ11LM")).toThrow("Definition 'WSDCGQ11LM' (battery) does not support device type Router");
+        expect(() => faker.device("EndDevice", "LED1545G12")).toThrow("Definition 'LED1545G12' (mains) does not support device type EndDevice");
+        expect(() => faker.device({ type: "Router", model: "WSDCGQ11LM" })).toThrow("does not support device type Router");
+        expect(() => faker.device({ type: "EndDevice", exposes: ["light"], vendor: "IKEA" })).toThrow("No definition matches");
+    });
+
+    it("derives endpoints and clusters from definition", () => {
+        const r = new Rng(1);
+
+        expect(definitionClusters(r, findDefinitionByModel("8718699673147")!)).toStrictEqual(
+            new Map([
+                [
+                    1,
+                    {
+                        name: undefined,
+                        clusters: { input: ["genBasic", "genIdentify", "genGroups", "genScenes", "genOnOff", "genLevelCtrl"], output: ["genOta"] },
+                    },
+                ],
+            ]),
+        );
+        expect(definitionClusters(r, findDefinitionByModel("WSDCGQ11LM")!).get(1)?.clusters.input).toStrictEqual([
+            "genBasic",
+            "genPowerCfg",
+            "genIdentify",
+            "msTemperatureMeasurement",
+            "msPressureMeasurement",
+            "msRelativeHumidity",
+        ]);
+        // remote: commands sent as client
+        expect(definitionClusters(r, findDefinitionByModel("E1524/E1810")!).get(1)?.clusters.output).toStrictEqual([
+            "genScenes",
+            "genOnOff",
+            "genLevelCtrl",
+            "genOta",
+        ]);
+
+        const multiEndpoint = definitionClusters(r, findDefinitionByModel("QBKG12LM")!);
+
+        expect(multiEndpoint.get(1)).toMatchObject({ name: "left" });
+        expect(multiEndpoint.get(2)).toStrictEqual({ name: "right", clusters: { input: ["genGroups", "genScenes", "genOnOff"], output: [] } });
+
+        const faker = new Zigbee2MQTTAPIFaker(1);
+        const light = faker.device({ exposes: ["light", "color_xy"] });
+
+        for (const ep of Object.values(light.endpoints)) {
+            if (ep.clusters.input.includes("genOnOff")) {
+                expect(ep.clusters.input).toContain("lightingColorCtrl");
+                expect(ep.clusters.input).not.toContain("closuresDoorLock");
+            }
+        }
+
+        expect(Object.values(faker.device("GreenPower").endpoints)).toStrictEqual([
+            expect.objectContaining({ clusters: { input: ["greenPower"], output: ["greenPower"] } }),
+        ]);
+    });
+
+    it("generates bindings and reportings consistent with the network", () => {
+        const faker = new Zigbee2MQTTAPIFaker(1);
+        const snapshot = faker.snapshot(100, 4);
+        let bindingCount = 0;
+        let reportingCount = 0;
+
+        for (const device of snapshot.devices) {
+            for (const ep of Object.values(device.endpoints)) {
+                for (const binding of ep.bindings) {
+                    expect(ep.clusters.output).toContain(binding.cluster);
+
+                    if (binding.target.type === "endpoint") {
+                        const { ieee_address, endpoint } = binding.target;
+                        const target = snapshot.devices.find((d) => d.ieee_address === ieee_address);
+
+                        expect(target?.endpoints[endpoint].clusters.input).toContain(binding.cluster);
+                    } else {
+                        const { id } = binding.target;
+
+                        expect(snapshot.groups.some((g) => g.id === id)).toStrictEqual(true);
+                    }
+
+                    bindingCount++;
+                }
+
+                for (const reporting of ep.configured_reportings) {
+                    const type = reportableAttributes(reporting.cluster).find(([name]) => name === reporting.attribute)?.[1];
+
+                    expect(ep.clusters.input).toContain(reporting.cluster);
+                    expect(type).toBeDefined();
+                    expect(reporting.minimum_report_interval).toBeLessThan(reporting.maximum_report_interval);
+
+                    if (reporting.cluster === "genOnOff") {
+                        expect(reporting.reportable_change).toStrictEqual(0);
+                    }
+
+                    reportingCount++;
+                }
+            }
+        }
+
+        expect(bindingCount).toBeGreaterThan(0);
+        expect(reportingCount).toBeGreaterThan(0);
+        expect(reportableAttributes("msTemperatureMeasurement")).toStrictEqual([["measuredValue", DataType.INT16]]);
+        expect(reportableAttributes("nope")).toStrictEqual([]);
+
+        // bindings drawn from their own streams, later generation unaffected
+        const bound = new Zigbee2MQTTAPIFaker(1);
+        const unbound = new Zigbee2MQTTAPIFaker(1);
+        const boundDevices = bound.devices(5);
+        const unboundDevices = unbound.devices(5);
+
+        bound.bindDevices(boundDevices, bound.groups(2, boundDevices));
+        unbound.groups(2, unboundDevices);
+
+        expect(bound.device()).toStrictEqual(unbound.device());
+        expect(bound.bridgeState()).toStrictEqual(unbound.bridgeState());
+    });
+
     it("generates a router device type", () => {
         const faker = new Zigbee2MQTTAPIFaker(1);
         const device = faker.device("Router");
 
         expect(device).toMatchObject({
-            ieee_address: "0x8ff49b6f77263271",
+            ieee_address: "0xa08ff49b6f772632",
             type: "Router",
-            network_address: 25859,
+            network_address: 3093,
         });
     });
 
@@ -147,9 +472,9 @@ describe("Zigbee2MQTT", () => {
         const device = faker.device("EndDevice");
 
         expect(device).toMatchObject({
-            ieee_address: "0x8ff49b6f77263271",
+            ieee_address: "0xa08ff49b6f772632",
             type: "EndDevice",
-            network_address: 25859,
+            network_address: 1846,
         });
     });
 
@@ -158,9 +483,9 @@ describe("Zigbee2MQTT", () => {
         const device = faker.device("GreenPower");
 
         expect(device).toMatchObject({
-            ieee_address: "0x8ff49b6f77263271",
+            ieee_address: "0xa08ff49b6f772632",
             type: "GreenPower",
-            network_address: 25859,
+            network_address: 1846,
         });
     });
 
@@ -169,9 +494,9 @@ describe("Zigbee2MQTT", () => {
         const device = faker.device("Unknown");
 
         expect(device).toMatchObject({
-            ieee_address: "0x8ff49b6f77263271",
+            ieee_address: "0xa08ff49b6f772632",
             type: "Unknown",
-            network_address: 25859,
+            network_address: 3093,
         });
     });
 
@@ -210,6 +535,188 @@ describe("Zigbee2MQTT", () => {
         expect(snapshot.networkMap.type).toStrictEqual("raw");
     });
 
+    it("generates unique identifiers", () => {
+        const faker = new Zigbee2MQTTAPIFaker(1);
+        const snapshot = faker.snapshot(200, 25);
+        const friendlyNames = [...snapshot.devices.map((d) => d.friendly_name), ...snapshot.groups.map((g) => g.friendly_name)];
+
+        expect(new Set(snapshot.devices.map((d) => d.ieee_address)).size).toStrictEqual(201);
+        expect(new Set(snapshot.devices.map((d) => d.network_address)).size).toStrictEqual(201);
+        expect(new Set(snapshot.groups.map((g) => g.id)).size).toStrictEqual(25);
+        expect(new Set(friendlyNames).size).toStrictEqual(friendlyNames.length);
+    });
+
+    it("uses injected clock for timestamps", () => {
+        const generate = () => {
+            const faker = new Zigbee2MQTTAPIFaker(1, { clock: 1700000000000 });
+            const snapshot = faker.snapshot(10, 2);
+
+            return {
+                snapshot,
+                health: faker.bridgeHealth(snapshot.devices),
+                states: snapshot.devices.slice(1).map((d) => faker.entityState(d)),
+            };
+        };
+        const first = generate();
+
+        vi.setSystemTime(1800000000000);
+
+        const second = generate();
+
+        vi.setSystemTime(1735689601000);
+
+        expect(second).toStrictEqual(first);
+        expect(first.health.response_time).toStrictEqual(1700000000000);
+        expect(Date.parse(first.states[0].last_seen as string)).toBeLessThan(1700000000000);
+
+        assert(first.snapshot.networkMap.type === "raw");
+
+        for (const node of first.snapshot.networkMap.value.nodes) {
+            expect(node.lastSeen).toBeLessThanOrEqual(1700000000000);
+        }
+
+        let now = 1000;
+        const faker = new Zigbee2MQTTAPIFaker(1, { clock: () => now });
+
+        expect(faker.clock()).toStrictEqual(1000);
+
+        now = 2000;
+
+        expect(faker.bridgeHealth([]).response_time).toStrictEqual(2000);
+    });
+
+    it("throws when an address space is exhausted", () => {
+        const faker = new Zigbee2MQTTAPIFaker(1);
+
+        expect(() => faker.devices(0xfff8)).toThrow("Cannot allocate 65528 network addresses (65527 available out of 65527)");
+        expect(() => faker.groups(0xffff, [])).toThrow("Cannot allocate 65535 group IDs (65534 available out of 65534)");
+
+        faker.devices(10);
+
+        expect(faker.allocated.networkAddresses.available).toStrictEqual(0xfff7 - 10);
+        expect(() => faker.devices(0xfff7 - 9)).toThrow("Cannot allocate 65518 network addresses (65517 available out of 65527)");
+
+        faker.groups(3, []);
+
+        const groupIds = faker.allocated.groupIds.size;
+        const friendlyNames = faker.allocated.friendlyNames.size;
+
+        // only 15 * 99 + 1 group names possible
+        expect(() => faker.groups(1500, [])).toThrow("Could not draw a unique friendly names after 10000 attempts");
+        // partial allocation released
+        expect(faker.allocated.groupIds.size).toStrictEqual(groupIds);
+        expect(faker.allocated.friendlyNames.size).toStrictEqual(friendlyNames);
+    });
+
+    it("generates a tree network map", () => {
+        const faker = new Zigbee2MQTTAPIFaker(1);
+        const coordinator = faker.coordinator();
+        const devices = faker.devices(60);
+        const networkMap = faker.networkMap(coordinator, devices, false, true);
+        const byIeee = new Map(networkMap.nodes.map((n) => [n.ieeeAddr, n]));
+
+        expect(networkMap.nodes.length).toStrictEqual(devices.filter((d) => d.type !== "GreenPower").length + 1);
+
+        for (const node of networkMap.nodes) {
+            if (node.type === "Coordinator") {
+                continue;
+            }
+
+            // exactly one parent
+            const asChild = networkMap.links.filter(
+                (l) => l.source.ieeeAddr === node.ieeeAddr && l.relationship === ZigbeeRelationship.NeighborIsAChild,
+            );
+
+            expect(asChild.length).toStrictEqual(1);
+
+            const parentDepth = networkMap.links.find(
+                (l) => l.source.ieeeAddr === asChild[0].target.ieeeAddr && l.relationship !== ZigbeeRelationship.NeighborIsASibling,
+            )?.depth;
+
+            expect(asChild[0].depth).toStrictEqual(byIeee.get(asChild[0].target.ieeeAddr)?.type === "Coordinator" ? 1 : parentDepth! + 1);
+
+            if (node.type === "EndDevice" || node.type === "Unknown") {
+                expect(networkMap.links.some((l) => l.target.ieeeAddr === node.ieeeAddr)).toStrictEqual(false);
+                expect(asChild[0].rxOnWhenIdle).toStrictEqual(0);
+            } else {
+                expect(
+                    networkMap.links.find((l) => l.source.ieeeAddr === asChild[0].target.ieeeAddr && l.target.ieeeAddr === node.ieeeAddr)
+                        ?.relationship,
+                ).toStrictEqual(ZigbeeRelationship.NeighborIsParent);
+            }
+        }
+
+        for (const link of networkMap.links) {
+            expect(link.source.ieeeAddr).not.toStrictEqual(link.target.ieeeAddr);
+
+            if (link.relationship === ZigbeeRelationship.NeighborIsASibling) {
+                expect(
+                    networkMap.links.find((l) => l.source.ieeeAddr === link.target.ieeeAddr && l.target.ieeeAddr === link.source.ieeeAddr)
+                        ?.relationship,
+                ).toStrictEqual(ZigbeeRelationship.NeighborIsASibling);
+            }
+        }
+    });
+
+    it("generates a network map with routes", () => {
+        const faker = new Zigbee2MQTTAPIFaker(1);
+        const coordinator = faker.coordinator();
+        const devices = faker.devices(60);
+        const networkMap = faker.rawNetworkMap(coordinator, devices, true, false, { failureRate: 0 });
+
+        assert(networkMap.type === "raw");
+
+        const links = networkMap.value.links;
+        let routeCount = 0;
+
+        for (const link of links) {
+            for (const route of link.routes) {
+                routeCount++;
+
+                expect(route.status).toStrictEqual("ACTIVE");
+                expect(route.nextHopAddress).toStrictEqual(link.source.networkAddress);
+
+                // next hops resolve to destination
+                let hop = route.nextHopAddress;
+                let hops = 0;
+
+                while (hop !== route.destinationAddress) {
+                    const next = links.find(
+                        (l) => l.target.networkAddress === hop && l.routes.some((rt) => rt.destinationAddress === route.destinationAddress),
+                    );
+
+                    if (!next) {
+                        // last hop is a direct neighbor of the destination
+                        expect(
+                            links.some((l) => l.target.networkAddress === hop && l.source.networkAddress === route.destinationAddress),
+                        ).toStrictEqual(true);
+                        break;
+                    }
+
+                    hop = next.source.networkAddress;
+                    hops++;
+
+                    expect(hops).toBeLessThan(links.length);
+                }
+            }
+        }
+
+        expect(routeCount).toBeGreaterThan(0);
+        expect(
+            links.some((l) => l.target.networkAddress !== 0 && l.routes.some((rt) => rt.manyToOne === 1 && rt.destinationAddress === 0)),
+        ).toStrictEqual(true);
+
+        // random links (no topology) never have routes
+        expect(faker.networkMap(coordinator, devices).links.every((l) => l.routes.length === 0)).toStrictEqual(true);
+
+        // more end devices than the coordinator can take as children (32)
+        const endDevices = Array.from({ length: 60 }, () => faker.device("EndDevice"));
+        const starMap = faker.networkMap(coordinator, endDevices, true);
+
+        expect(starMap.links.length).toStrictEqual(60);
+        expect(starMap.links.every((l) => l.target.networkAddress === coordinator.network_address)).toStrictEqual(true);
+    });
+
     it("lists ZHC models", () => {
         const output = listDefinitionModels();
 